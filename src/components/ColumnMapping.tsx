@@ -6,10 +6,35 @@ import { SimpleSelect } from '@/components/ui/simple-select';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, AlertCircle, ArrowRight, FileSpreadsheet, Settings } from 'lucide-react';
-import { getTableSchema, parseFileHeaders, getMappingTableColumns } from '@/utils/baserowApi';
-import { smartMatch, calculateSimilarity } from '@/utils/stringMatching';
+import { CheckCircle, AlertCircle, ArrowRight, FileSpreadsheet, Settings, History, Wand2, Phone, Mail } from 'lucide-react';
+import { parseFileHeaders, parseFileSample, getMappingTableColumns, getImportTargetTables, getTargetTableColumns, detectFileDelimiter, getFileEncodingInfo, analyzeFileDuplicates, getInterruptedImportJob, discardImportJob, ImportOptions, ImportMode } from '@/utils/baserowApi';
+import { ImportJob } from '@/utils/fileStorage';
+import { CSV_DELIMITERS, getDelimiterLabel } from '@/utils/csvParser';
+import { FILE_ENCODINGS, FileEncoding, getEncodingLabel } from '@/utils/encoding';
+import { BaserowFieldType, FieldOptions, FieldSpec, profileColumn, getFieldOptions, getFieldTypeLabel } from '@/utils/fieldTypes';
+import { DuplicateGroup, DuplicateStrategy } from '@/utils/duplicates';
+import { MappingTemplate, TemplateColumn, TemplateMatch, getMappingTemplates, saveMappingTemplate, deleteMappingTemplate, findMatchingTemplates, getTemplateColumn } from '@/utils/mappingTemplates';
+import { smartMatch, calculateSimilarity, rankMatchCandidates, mergeMatchCandidates, describeMatchCandidate, MatchCandidate } from '@/utils/stringMatching';
+import { findContentCandidates } from '@/utils/contentMatching';
+import { getColumnStats } from '@/utils/sampleStats';
+import { ColumnRules, MergeRule, SplitRule, DEFAULT_MERGE_SEPARATOR, createTargetComposer, getTargetSources, getMappedTargetColumns, getSplitPartLabels, getRegexGroupCount } from '@/utils/columnRules';
+import { TransformStep, createTransformStep } from '@/utils/transformations';
+import { ValueLocale, VALUE_LOCALE_OPTIONS, DEFAULT_VALUE_LOCALE } from '@/utils/valueParsing';
+import { ExtraColumn, UserDataKey, resolveExtraColumns, getExtraColumnFieldSpec } from '@/utils/extraColumns';
+import { ValidationRule, getRulePattern } from '@/utils/validation';
+import { looksLikeEmailColumn, parseEmailAddresses } from '@/utils/emailAddresses';
+import { LearnedMapping, getLearnedMappings, getLearnedSynonyms, deleteLearnedMapping, clearLearnedMappings } from '@/utils/learnedMappings';
 import ImportProgressDialog from './ImportProgressDialog';
+import FieldTypeSettings from './FieldTypeSettings';
+import DuplicateReview from './DuplicateReview';
+import MappingTemplates from './MappingTemplates';
+import LearnedMappings from './LearnedMappings';
+import MappingPreview, { PreviewColumn } from './MappingPreview';
+import MergeRules from './MergeRules';
+import SplitRuleSettings from './SplitRuleSettings';
+import TransformationSettings from './TransformationSettings';
+import ExtraColumns from './ExtraColumns';
+import ValidationRules from './ValidationRules';
 
 // Custom CSS for single flash animation
 const flashOnceAnimation = `
@@ -32,12 +57,16 @@ interface ProgressInfo {
   currentBatch?: number;
   totalBatches?: number;
   failed?: number;
+  invalid?: number;
+  flagged?: number;
   processing?: 'bulk' | 'standard' | 'individual';
 }
 
 interface ColumnMappingProps {
   uploadedFile: File;
-  onMappingComplete: (mappings: Record<string, string>, progressCallback?: (progress: ProgressInfo) => void) => void;
+  userData?: Partial<Record<UserDataKey, string>>; // Upload form values offered to extra columns
+  // confirmedMappings: source -> existing target column, learned once the import succeeded
+  onMappingComplete: (mappings: Record<string, string>, progressCallback?: (progress: ProgressInfo) => void, options?: ImportOptions, confirmedMappings?: Record<string, string>) => void;
   onBack: () => void;
 }
 
@@ -47,9 +76,17 @@ interface ColumnMapping {
   isMatched: boolean;
   similarity: number;
   isIgnored: boolean;
+  fieldType: BaserowFieldType;
+  fieldOptions: FieldOptions;
+  detectedType: BaserowFieldType;
+  matchReason?: string; // Why the target column was proposed, when it was not the header
+  suggestions: MatchCandidate[]; // Best ranked target columns, offered as alternatives
 }
 
-const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingComplete, onBack }) => {
+// Alternatives offered per source column
+const MAX_SUGGESTIONS = 3;
+
+const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, userData, onMappingComplete, onBack }) => {
   const [userColumns, setUserColumns] = useState<string[]>([]);
   const [targetColumns, setTargetColumns] = useState<string[]>([]);
   const [mappings, setMappings] = useState<Record<string, ColumnMapping>>({});
@@ -59,19 +96,61 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
   const [progressInfo, setProgressInfo] = useState<ProgressInfo | null>(null);
   const [highlightUnmapped, setHighlightUnmapped] = useState(false);
   const [highlightedColumns, setHighlightedColumns] = useState<Set<string>>(new Set());
+  const [delimiter, setDelimiter] = useState<string>(',');
+  const [detectedDelimiter, setDetectedDelimiter] = useState<string | null>(null);
+  const [encoding, setEncoding] = useState<FileEncoding | null>(null);
+  const [detectedEncoding, setDetectedEncoding] = useState<FileEncoding | null>(null);
+  const [canChangeEncoding, setCanChangeEncoding] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('create');
+  const [targetTableId, setTargetTableId] = useState<string | null>(null);
+  const [targetTables, setTargetTables] = useState<Array<{ id: string, name: string }>>([]);
+  const [targetFieldTypes, setTargetFieldTypes] = useState<Record<string, string>>({});
+  const [keyColumns, setKeyColumns] = useState<string[]>([]);
+  const [duplicateKeyColumns, setDuplicateKeyColumns] = useState<string[]>([]);
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('keep_first');
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[] | null>(null);
+  const [duplicateHeaders, setDuplicateHeaders] = useState<string[]>([]);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const duplicateReviewRef = useRef<HTMLDivElement | null>(null);
+  const [interruptedJob, setInterruptedJob] = useState<ImportJob | null>(null);
+  const [templates, setTemplates] = useState<MappingTemplate[]>(getMappingTemplates);
+  const [templateSuggestion, setTemplateSuggestion] = useState<TemplateMatch | null>(null);
+  const [appliedTemplateId, setAppliedTemplateId] = useState<string | null>(null);
+  const [learnedMappings, setLearnedMappings] = useState<LearnedMapping[]>(getLearnedMappings);
+  const [sampleValues, setSampleValues] = useState<Record<string, string[]>>({});
+  const [mergeSettings, setMergeSettings] = useState<Record<string, Omit<MergeRule, 'target'>>>({});
+  const [splitRules, setSplitRules] = useState<Record<string, SplitRule>>({}); // Keyed by source column
+  const [transforms, setTransforms] = useState<Record<string, TransformStep[]>>({}); // Keyed by source column
+  const [expandedTransforms, setExpandedTransforms] = useState<Set<string>>(new Set());
+  const [extraColumns, setExtraColumns] = useState<ExtraColumn[]>([]);
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>([]);
   const columnRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const { toast } = useToast();
 
   useEffect(() => {
     loadColumnData();
+    getInterruptedImportJob().then(setInterruptedJob);
   }, []);
 
-  const loadColumnData = async () => {
+  const loadColumnData = async (overrides: ImportOptions = {}) => {
     try {
       setIsLoading(true);
       
+      // Use the encoding detected at upload unless the user picked another one
+      const encodingInfo = getFileEncodingInfo();
+      const activeEncoding = overrides.encoding || encoding || encodingInfo.encoding;
+      setDetectedEncoding(encodingInfo.detectedEncoding);
+      setCanChangeEncoding(encodingInfo.canChange);
+      setEncoding(activeEncoding);
+      
+      // Detect the delimiter unless the user picked one manually
+      const detected = await detectFileDelimiter(uploadedFile, activeEncoding || undefined);
+      const activeDelimiter = overrides.delimiter || detected;
+      setDetectedDelimiter(detected);
+      setDelimiter(activeDelimiter);
+      
       // Parse user file headers
-      const allFileHeaders = await parseFileHeaders(uploadedFile);
+      const allFileHeaders = await parseFileHeaders(uploadedFile, { delimiter: activeDelimiter, encoding: activeEncoding || undefined });
       
       // Filter out ID columns that shouldn't be mapped
       const filteredHeaders = allFileHeaders.filter(header => {
@@ -81,40 +160,106 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
       
       setUserColumns(filteredHeaders);
       
-      // Get filtered column names from mapping table
-      const schemaColumns = await getMappingTableColumns();
+      // Propose a field type per column from the first rows of the file
+      const sampleValues = await loadSampleValues(filteredHeaders, { delimiter: activeDelimiter, encoding: activeEncoding || undefined });
+      setSampleValues(sampleValues);
+      const detectedFields: Record<string, FieldSpec> = Object.fromEntries(
+        filteredHeaders.map(header => [header, profileColumn(header, sampleValues[header])])
+      );
+      
+      // New tables use the columns of the mapping table, appends the fields of the chosen table
+      const activeMode = overrides.mode || importMode;
+      let schemaColumns: string[];
+      let schemaTypes: Record<string, string> = {};
+      if (activeMode !== 'create') {
+        let activeTableId = overrides.targetTableId || targetTableId;
+        if (targetTables.length === 0 || !activeTableId) {
+          const { tables, defaultTableId } = await getImportTargetTables();
+          setTargetTables(tables);
+          activeTableId = activeTableId || defaultTableId;
+        }
+        const tableColumns = await getTargetTableColumns(activeTableId);
+        schemaColumns = tableColumns.map(column => column.name);
+        schemaTypes = Object.fromEntries(tableColumns.map(column => [column.name, column.type]));
+        setTargetTableId(activeTableId);
+      } else {
+        schemaColumns = await getMappingTableColumns();
+      }
+      setTargetFieldTypes(schemaTypes);
+      setImportMode(activeMode);
       setTargetColumns(schemaColumns);
       
-      // Create initial mappings with smart matching
+      // Create initial mappings with smart matching, preferring associations users confirmed before
       const initialMappings: Record<string, ColumnMapping> = {};
+      const learnedSynonyms = getLearnedSynonyms();
       
+      const proposals: Record<string, MatchCandidate | null> = {};
       filteredHeaders.forEach(userCol => {
-        const smartMatchResult = smartMatch(userCol, schemaColumns);
-        const similarity = smartMatchResult ? calculateSimilarity(userCol, smartMatchResult) : 0;
+        // Poorly named columns are matched by what their values look like
+        const contentCandidates = findContentCandidates(userCol, sampleValues[userCol], schemaColumns, schemaTypes);
+        const candidates = mergeMatchCandidates(rankMatchCandidates(userCol, schemaColumns, learnedSynonyms), contentCandidates);
+        const smartMatchResult = smartMatch(userCol, schemaColumns, learnedSynonyms);
+        const smartCandidate = candidates.find(candidate => candidate.column === smartMatchResult);
+        const contentMatch = contentCandidates[0];
+        const detectedField = detectedFields[userCol];
         
-        if (smartMatchResult && similarity >= 70) {
+        if (smartCandidate && smartCandidate.similarity >= 70) {
           // High confidence match to existing column
-          initialMappings[userCol] = {
-            userColumn: userCol,
-            targetColumn: smartMatchResult,
-            isMatched: true,
-            similarity,
-            isIgnored: false,
-          };
+          proposals[userCol] = smartCandidate;
+        } else if (contentMatch && contentMatch.similarity >= 70) {
+          proposals[userCol] = contentMatch;
         } else {
-          // No good match found - default to "add new" (blue)
-          initialMappings[userCol] = {
-            userColumn: userCol,
-            targetColumn: null,
-            isMatched: true, // Set to true so it shows as blue (add new)
-            similarity: 0, // No similarity since it's not matching anything
-            isIgnored: false,
-          };
+          proposals[userCol] = null;
         }
+        
+        // No good match found - default to "add new" (blue)
+        initialMappings[userCol] = {
+          userColumn: userCol,
+          targetColumn: null,
+          isMatched: true, // Set to true so it shows as blue (add new)
+          similarity: 0, // No similarity since it's not matching anything
+          isIgnored: false,
+          fieldType: detectedField.type,
+          fieldOptions: getFieldOptions(detectedField),
+          detectedType: detectedField.type,
+          suggestions: candidates.slice(0, MAX_SUGGESTIONS),
+        };
       });
       
+      // Each target column goes to its best match only; merging columns is always a manual choice
+      const takenTargets = new Set<string>();
+      filteredHeaders
+        .filter(userCol => proposals[userCol])
+        .sort((a, b) => (proposals[b]?.similarity || 0) - (proposals[a]?.similarity || 0))
+        .forEach(userCol => {
+          const proposal = proposals[userCol] as MatchCandidate;
+          if (takenTargets.has(proposal.column)) return;
+          takenTargets.add(proposal.column);
+          initialMappings[userCol] = {
+            ...initialMappings[userCol],
+            targetColumn: proposal.column,
+            similarity: proposal.similarity,
+            matchReason: proposal.reason !== 'exact' ? describeMatchCandidate(proposal) : undefined,
+          };
+        });
+      
       setMappings(initialMappings);
       
+      // Offer the stored template that fits the header row best
+      setTemplateSuggestion(findMatchingTemplates(filteredHeaders)[0] || null);
+      setAppliedTemplateId(null);
+      
+      // E-mail columns are the usual way to recognise the same contact twice in a file
+      setDuplicateKeyColumns(filteredHeaders.filter(header => detectedFields[header].type === 'email'));
+      setDuplicateGroups(null);
+      
+      // Propose e-mail columns of the target table as upsert key
+      setKeyColumns(activeMode === 'upsert'
+        ? Object.values(initialMappings)
+            .filter(m => m.targetColumn && schemaTypes[m.targetColumn] === 'email')
+            .map(m => m.targetColumn as string)
+        : []);
+      
       toast({
         title: "Spalten analysiert",
         description: `${filteredHeaders.length} Spalten gefunden. ${Object.values(initialMappings).filter(m => m.isMatched).length} automatisch zugeordnet.`,
@@ -131,28 +276,130 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
     }
   };
 
+  // Values of the first rows per column, used for field types and content matching
+  const loadSampleValues = async (headers: string[], options: ImportOptions): Promise<Record<string, string[]>> => {
+    const values: Record<string, string[]> = {};
+    let sample: { headers: string[], rows: string[][] } = { headers: [], rows: [] };
+    try {
+      sample = await parseFileSample(uploadedFile, options);
+    } catch (error) {
+      // Without a sample every column starts as text and can still be changed manually
+    }
+    headers.forEach(header => {
+      const index = sample.headers.indexOf(header);
+      values[header] = index >= 0 ? sample.rows.map(row => row[index] ?? '') : [];
+    });
+    return values;
+  };
+
+  const handleDelimiterChange = (value: string) => {
+    if (value === delimiter) return;
+    // Headers change with the delimiter, so the mapping has to be rebuilt
+    loadColumnData({ delimiter: value, encoding: encoding || undefined });
+  };
+
+  const handleEncodingChange = (value: string) => {
+    if (value === encoding) return;
+    // Re-decode the headers; the delimiter is detected again for the new text
+    loadColumnData({ encoding: value as FileEncoding });
+  };
+
+  const handleImportModeChange = (value: string) => {
+    if (value === importMode) return;
+    // The available target columns depend on the mode, so the mapping has to be rebuilt
+    loadColumnData({ mode: value as ImportMode, delimiter, encoding: encoding || undefined });
+  };
+
+  const handleTargetTableChange = (value: string) => {
+    if (value === targetTableId) return;
+    loadColumnData({ mode: importMode, targetTableId: value, delimiter, encoding: encoding || undefined });
+  };
+
+  const handleDuplicateKeyColumnsChange = (columns: string[]) => {
+    setDuplicateKeyColumns(columns);
+    setDuplicateGroups(null);
+  };
+
+  // Look for duplicate records in the whole file and show them for review
+  const checkDuplicates = async (): Promise<DuplicateGroup[] | null> => {
+    setIsCheckingDuplicates(true);
+    try {
+      const result = await analyzeFileDuplicates({ delimiter, encoding: encoding || undefined }, duplicateKeyColumns);
+      setDuplicateHeaders(result.headers);
+      setDuplicateGroups(result.groups);
+      return result.groups;
+    } catch (error) {
+      toast({
+        title: "Duplikatprüfung fehlgeschlagen",
+        description: error instanceof Error ? error.message : "Die Datei konnte nicht auf Duplikate geprüft werden.",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+  };
+
+  const toggleKeyColumn = (column: string) => {
+    setKeyColumns(prev => prev.includes(column) ? prev.filter(key => key !== column) : [...prev, column]);
+  };
+
+  // Field type chosen on the mapping page for a target column. A target filled by several source columns
+  // is typed from its merged values when the import profiles it, unless a type was chosen for one of them.
+  const getChosenFieldSpec = (target: string, sourceColumns: string[]): FieldSpec | undefined => {
+    const sources = sourceColumns.map(column => mappings[column]).filter(Boolean);
+    const chosen = sources.length === 1 ? sources[0] : sources.find(m => m.fieldType !== m.detectedType);
+    return chosen ? { name: target, type: chosen.fieldType, ...chosen.fieldOptions } : undefined;
+  };
+
+  // Columns of the target table in mapping order, with the source columns that fill each
+  const getPreviewColumns = (): PreviewColumn[] => {
+    const finalMappings = getFinalMappings();
+    const extraPreviewColumns = extraColumns
+      .filter(column => column.name)
+      .map(column => ({
+        target: column.name,
+        sources: [],
+        spec: targetFieldTypes[column.name] ? undefined : getExtraColumnFieldSpec(column) || undefined,
+      }));
+    return Object.entries(getTargetSources(userColumns, finalMappings, getColumnRules())).map(([target, sources]) => {
+      // Columns only filled by split parts get their type when the import profiles them
+      const mappedSources = sources.filter(source => finalMappings[source] === target);
+      return {
+        target,
+        sources,
+        // Existing fields keep their own type, so only new columns are checked here
+        spec: targetFieldTypes[target] ? undefined : getChosenFieldSpec(target, mappedSources),
+      };
+    }).concat(extraPreviewColumns);
+  };
+
+  // Target column names of all columns that will be imported
+  const getImportedColumns = () => {
+    return getMappedTargetColumns(getFinalMappings(), { splits: getSplitRules(), extras: extraColumns });
+  };
+
   const handleMappingChange = (userColumn: string, targetColumn: string) => {
     // Clear highlights when user makes changes
     setHighlightUnmapped(false);
     setHighlightedColumns(new Set());
     
     setMappings(prev => {
+      // Another source column already mapped to the target is kept; both are merged on import
       const updated = { ...prev };
 
-      // Remove previous mapping if exists
-      Object.keys(updated).forEach(key => {
-        if (updated[key].targetColumn === targetColumn && key !== userColumn) {
-          updated[key] = {
-            ...updated[key],
-            targetColumn: null,
-            isMatched: false,
-            similarity: 0,
-          };
-        }
-      });
-
       // Set new mapping
-      if (targetColumn === 'ignore') {
+      if (targetColumn === 'split') {
+        // The parts of the column go to the target columns of its split rule
+        updated[userColumn] = {
+          ...updated[userColumn],
+          targetColumn: null,
+          isMatched: true,
+          similarity: 0,
+          isIgnored: false,
+          matchReason: undefined,
+        };
+      } else if (targetColumn === 'ignore') {
         updated[userColumn] = {
           ...updated[userColumn],
           targetColumn: null,
@@ -176,19 +423,289 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
           isMatched: true,
           similarity: calculateSimilarity(userColumn, targetColumn),
           isIgnored: false,
+          matchReason: undefined,
         };
       }
 
       return updated;
     });
+    
+    if (targetColumn === 'split') {
+      handleSplitRuleChange({ source: userColumn, mode: 'name', pattern: '', targets: [] });
+    } else {
+      setSplitRules(prev => {
+        const { [userColumn]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // Target columns of the parts; parts the user already assigned keep their target
+  const handleSplitRuleChange = (rule: SplitRule) => {
+    setSplitRules(prev => {
+      const previous = prev[rule.source];
+      const keepTargets = !!previous && previous.mode === rule.mode;
+      const proposed = new Set<string>();
+      const targets = getSplitPartLabels(rule).map((label, index) => {
+        if (keepTargets && index < previous.targets.length) return rule.targets[index] || '';
+        // Existing columns that match the part name are preferred over new columns
+        const target = smartMatch(label, targetColumns.filter(column => !proposed.has(column))) || label;
+        proposed.add(target);
+        return target;
+      });
+      return { ...prev, [rule.source]: { ...rule, targets } };
+    });
   };
 
-  const getAvailableTargetColumns = (currentUserColumn: string) => {
-    const usedColumns = Object.values(mappings)
-      .filter(m => m.targetColumn && m.userColumn !== currentUserColumn)
-      .map(m => m.targetColumn);
+  // Pick one of the ranked alternatives; it keeps its score and reason
+  const handleSuggestionPick = (userColumn: string, candidate: MatchCandidate) => {
+    handleMappingChange(userColumn, candidate.column);
+    setMappings(prev => ({
+      ...prev,
+      [userColumn]: { ...prev[userColumn], similarity: candidate.similarity, matchReason: describeMatchCandidate(candidate) },
+    }));
+  };
+
+  const handleFieldTypeChange = (userColumn: string, fieldType: BaserowFieldType, fieldOptions: FieldOptions) => {
+    setMappings(prev => ({
+      ...prev,
+      [userColumn]: { ...prev[userColumn], fieldType, fieldOptions },
+    }));
+  };
+
+  // Apply a saved template; columns it does not know keep their smart match
+  const applyTemplate = (template: MappingTemplate) => {
+    setHighlightUnmapped(false);
+    setHighlightedColumns(new Set());
     
-    return targetColumns.filter(col => !usedColumns.includes(col));
+    setMappings(prev => {
+      const updated = { ...prev };
+      const templateTargets = new Set<string>();
+      
+      userColumns.forEach(userCol => {
+        const column = getTemplateColumn(template, userCol);
+        if (!column) return;
+        // A target column that no longer exists is added as new column instead
+        const targetColumn = column.targetColumn && targetColumns.includes(column.targetColumn) ? column.targetColumn : null;
+        if (targetColumn) templateTargets.add(targetColumn);
+        updated[userCol] = {
+          ...updated[userCol],
+          targetColumn,
+          isMatched: !column.isIgnored,
+          similarity: targetColumn ? calculateSimilarity(userCol, targetColumn) : 0,
+          isIgnored: column.isIgnored,
+          matchReason: targetColumn ? `Vorlage „${template.name}“` : undefined,
+          fieldType: column.fieldType,
+          fieldOptions: column.fieldOptions,
+        };
+      });
+      
+      // Smart matches must not keep a target column the template assigned to another column
+      userColumns.forEach(userCol => {
+        const targetColumn = updated[userCol].targetColumn;
+        if (!getTemplateColumn(template, userCol) && targetColumn && templateTargets.has(targetColumn)) {
+          updated[userCol] = { ...updated[userCol], targetColumn: null, isMatched: false, similarity: 0 };
+        }
+      });
+      
+      return updated;
+    });
+    
+    // Split rules of the template's columns replace their mapping
+    const templateSplits = (template.columnRules?.splits || []).filter(rule => userColumns.includes(rule.source));
+    setSplitRules(prev => ({
+      ...Object.fromEntries(Object.entries(prev).filter(([userCol]) => !getTemplateColumn(template, userCol))),
+      ...Object.fromEntries(templateSplits.map(rule => [rule.source, rule])),
+    }));
+    
+    // Transformations of the template's columns
+    setTransforms(prev => ({
+      ...prev,
+      ...Object.fromEntries(userColumns
+        .filter(userCol => getTemplateColumn(template, userCol))
+        .map(userCol => [userCol, template.columnRules?.transforms?.[userCol] || []])),
+    }));
+    
+    if (template.columnRules?.extras) {
+      setExtraColumns(template.columnRules.extras);
+    }
+    
+    // Order and separator of merged columns
+    setMergeSettings(prev => ({
+      ...prev,
+      ...Object.fromEntries((template.columnRules?.merges || []).map(({ target, ...settings }) => [target, settings])),
+    }));
+    setAppliedTemplateId(template.id);
+    toast({
+      title: "Vorlage angewendet",
+      description: `Die Zuordnung aus „${template.name}“ wurde übernommen.`,
+    });
+  };
+
+  const handleSaveTemplate = (name: string) => {
+    try {
+      // Open columns are left out so they are matched again when the template is applied
+      const columns: Record<string, TemplateColumn> = {};
+      Object.values(mappings)
+        .filter(m => m.isMatched || m.isIgnored)
+        .forEach(m => {
+          columns[m.userColumn] = {
+            targetColumn: m.targetColumn,
+            isIgnored: m.isIgnored,
+            fieldType: m.fieldType,
+            fieldOptions: m.fieldOptions,
+          };
+        });
+      
+      const template = saveMappingTemplate(name, userColumns, columns, getColumnRules());
+      setTemplates(getMappingTemplates());
+      setAppliedTemplateId(template.id);
+      toast({
+        title: "Vorlage gespeichert",
+        description: `„${template.name}“ wird bei Dateien mit gleichen Spalten vorgeschlagen.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: error instanceof Error ? error.message : "Die Vorlage konnte nicht gespeichert werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    deleteMappingTemplate(id);
+    setTemplates(getMappingTemplates());
+    if (templateSuggestion?.template.id === id) setTemplateSuggestion(null);
+    if (appliedTemplateId === id) setAppliedTemplateId(null);
+  };
+
+  const handleDeleteLearnedMapping = (sourceColumn: string, targetColumn: string) => {
+    deleteLearnedMapping(sourceColumn, targetColumn);
+    setLearnedMappings(getLearnedMappings());
+  };
+
+  const handleClearLearnedMappings = () => {
+    clearLearnedMappings();
+    setLearnedMappings([]);
+  };
+
+  // Target columns already filled by other source columns; picking one of them merges the sources
+  const getMergeTargetColumns = (currentUserColumn: string) => {
+    const otherMappings = Object.values(mappings).filter(m => m.userColumn !== currentUserColumn);
+    return getMappedTargetColumns(
+      Object.fromEntries(otherMappings.filter(m => m.targetColumn && !m.isIgnored).map(m => [m.userColumn, m.targetColumn as string])),
+      { splits: getSplitRules().filter(rule => rule.source !== currentUserColumn) }
+    );
+  };
+
+  // Split rules of the columns that are currently split
+  const getSplitRules = (): SplitRule[] => {
+    return userColumns
+      .filter(userColumn => splitRules[userColumn] && mappings[userColumn] && !mappings[userColumn].isIgnored)
+      .map(userColumn => splitRules[userColumn]);
+  };
+
+  // Merge rules of all target columns filled by several source columns
+  const getMergeRules = (): MergeRule[] => {
+    const sourcesByTarget = getTargetSources(userColumns, getFinalMappings(), { splits: getSplitRules() });
+    
+    return Object.entries(sourcesByTarget)
+      .filter(([, sources]) => sources.length > 1)
+      .map(([target, sources]) => {
+        const settings = mergeSettings[target];
+        // Keep the chosen order; newly added sources are appended in file order
+        const ordered = (settings?.sources || []).filter(source => sources.includes(source));
+        return {
+          target,
+          sources: [...ordered, ...sources.filter(source => !ordered.includes(source))],
+          separator: settings?.separator ?? DEFAULT_MERGE_SEPARATOR,
+        };
+      });
+  };
+
+  // Transformation chains of the imported columns
+  const getTransforms = (): Record<string, TransformStep[]> => {
+    return Object.fromEntries(
+      userColumns
+        .filter(userColumn => (transforms[userColumn] || []).length > 0 && mappings[userColumn] && !mappings[userColumn].isIgnored)
+        .map(userColumn => [userColumn, transforms[userColumn]])
+    );
+  };
+
+  const getColumnRules = (): ColumnRules => ({
+    merges: getMergeRules(),
+    splits: getSplitRules(),
+    transforms: getTransforms(),
+    extras: extraColumns.map(column => ({ ...column, name: column.name.trim() })),
+  });
+
+  const handleTransformsChange = (userColumn: string, steps: TransformStep[]) => {
+    setTransforms(prev => ({ ...prev, [userColumn]: steps }));
+  };
+
+  // Columns the profiler reads as phone numbers get the normaliser with one click
+  const handleAddPhoneNormalizer = (userColumn: string) => {
+    handleTransformsChange(userColumn, [...(transforms[userColumn] || []), createTransformStep('phone')]);
+    setExpandedTransforms(prev => new Set(prev).add(userColumn));
+  };
+
+  // E-mail mode: cleanup of the addresses; cells with several addresses keep all of them
+  const handleAddEmailCleanup = (userColumn: string) => {
+    const hasSeveralAddresses = (sampleValues[userColumn] || []).some(value => parseEmailAddresses(value).length > 1);
+    const step = { ...createTransformStep('email'), ...(hasSeveralAddresses ? { multiple: 'all' as const } : {}) };
+    handleTransformsChange(userColumn, [...(transforms[userColumn] || []), step]);
+    setExpandedTransforms(prev => new Set(prev).add(userColumn));
+  };
+
+  const toggleTransforms = (userColumn: string) => {
+    setExpandedTransforms(prev => {
+      const updated = new Set(prev);
+      if (updated.has(userColumn)) {
+        updated.delete(userColumn);
+      } else {
+        updated.add(userColumn);
+      }
+      return updated;
+    });
+  };
+
+  const handleMergeRuleChange = ({ target, ...settings }: MergeRule) => {
+    setMergeSettings(prev => ({ ...prev, [target]: settings }));
+  };
+
+  // Source -> target mapping of all columns that will be imported, as passed to the import
+  const getFinalMappings = (): Record<string, string> => {
+    const finalMappings: Record<string, string> = {};
+    Object.values(mappings).forEach(m => {
+      if (!m.isIgnored && m.isMatched && !splitRules[m.userColumn]) {
+        finalMappings[m.userColumn] = m.targetColumn || m.userColumn;
+      }
+    });
+    return finalMappings;
+  };
+
+  // Source -> existing target column of the final mapping, learned for the next files once the import succeeded
+  const getConfirmedMappings = (): Record<string, string> => {
+    return Object.fromEntries(
+      Object.values(mappings)
+        .filter(m => !m.isIgnored && m.isMatched && m.targetColumn && !splitRules[m.userColumn])
+        .map(m => [m.userColumn, m.targetColumn as string])
+    );
+  };
+
+  // Composed target values of the first sample rows
+  const getPreviewRows = (maxRows: number): Record<string, string>[] => {
+    // Extra columns are shown with the values the import would give them now
+    const columnRules = getColumnRules();
+    const composeTargetValues = createTargetComposer(userColumns, getFinalMappings(), {
+      ...columnRules,
+      extras: resolveExtraColumns(columnRules.extras || [], { userData, fileName: uploadedFile.name, importedAt: new Date() }),
+    });
+    const rowCount = Math.min(maxRows, Math.max(0, ...userColumns.map(column => (sampleValues[column] || []).length)));
+    return Array.from({ length: rowCount }, (_, rowIndex) =>
+      composeTargetValues(userColumns.map(column => sampleValues[column]?.[rowIndex] ?? ''))
+    );
   };
 
   const scrollToFirstUnmappedColumn = (unmappedColumns: string[]) => {
@@ -218,6 +735,21 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
     }
   };
 
+  // Progress callback function - show dialog immediately when import starts
+  const progressCallback = (progress: ProgressInfo) => {
+    // Show dialog immediately when any progress is reported
+    setShowProgressDialog(true);
+    setProgressInfo(progress);
+    
+    // Auto-hide dialog when completed
+    if (progress.percentage >= 100) {
+      setTimeout(() => {
+        setShowProgressDialog(false);
+        setProgressInfo(null);
+      }, 3000); // Show completion for 3 seconds
+    }
+  };
+
   const handleImport = async () => {
     // Reset any previous import state
     setShowProgressDialog(false);
@@ -226,15 +758,24 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
     
     try {
       const finalMappings: Record<string, string> = {};
+      const fields: FieldSpec[] = [];
       const unmappedColumns: string[] = [];
       
       Object.entries(mappings).forEach(([userCol, mapping]) => {
         if (mapping.targetColumn && !mapping.isIgnored) {
-          // Regular mapping to existing column
+          // Regular mapping to existing column; merged columns share one field
           finalMappings[userCol] = mapping.targetColumn;
+          const target = mapping.targetColumn;
+          const spec = getChosenFieldSpec(target, Object.keys(mappings).filter(column => !mappings[column].isIgnored && mappings[column].targetColumn === target));
+          if (spec && !fields.some(field => field.name === target)) {
+            fields.push(spec);
+          }
+        } else if (!mapping.isIgnored && splitRules[userCol]) {
+          // Split columns reach their target columns through the split rule
         } else if (!mapping.isIgnored && !mapping.targetColumn && mapping.isMatched) {
           // This is an "add_new" case - use the user column as the new column name
           finalMappings[userCol] = userCol;
+          fields.push({ name: userCol, type: mapping.fieldType, ...mapping.fieldOptions });
         } else if (!mapping.isIgnored && !mapping.targetColumn && !mapping.isMatched) {
           // Truly unmapped column
           unmappedColumns.push(userCol);
@@ -269,27 +810,98 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
         return; // Stop here - don't proceed with import until all columns are handled
       }
       
+      // Split rules need a valid expression and at least one target column
+      const invalidSplit = getSplitRules().find(rule =>
+        (rule.mode === 'regex' && getRegexGroupCount(rule.pattern) === null) || !rule.targets.some(Boolean)
+      );
+      if (invalidSplit) {
+        scrollToFirstUnmappedColumn([invalidSplit.source]);
+        toast({
+          title: "Aufteilung unvollständig",
+          description: `Die Aufteilung von „${invalidSplit.source}“ braucht einen gültigen Ausdruck und mindestens eine Zielspalte.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      // Extra columns need a name of their own
+      const fileColumns = getMappedTargetColumns(finalMappings, { splits: getSplitRules() });
+      const extraNames = extraColumns.map(column => column.name.trim());
+      const invalidExtraName = extraNames.find((name, index) =>
+        !name || fileColumns.includes(name) || extraNames.indexOf(name) !== index
+      );
+      if (invalidExtraName !== undefined) {
+        toast({
+          title: "Zusatzspalte ungültig",
+          description: invalidExtraName
+            ? `Der Spaltenname „${invalidExtraName}“ wird bereits verwendet.`
+            : "Bitte geben Sie jeder Zusatzspalte einen Namen.",
+          variant: "destructive",
+        });
+        return;
+      }
+      (getColumnRules().extras || []).forEach(column => {
+        const spec = getExtraColumnFieldSpec(column);
+        if (spec) fields.push(spec);
+      });
+      
+      // Rules of columns that are not imported are skipped, patterns have to compile
+      const activeValidationRules = validationRules.filter(rule => getImportedColumns().includes(rule.column));
+      const invalidRule = activeValidationRules.find(rule => rule.type === 'regex' && (!rule.pattern || !getRulePattern(rule)));
+      if (invalidRule) {
+        toast({
+          title: "Prüfregel ungültig",
+          description: `Die Prüfregel für „${invalidRule.column}“ braucht einen gültigen regulären Ausdruck.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      // Upserts need a key to find the existing rows
+      const activeKeyColumns = keyColumns.filter(column => getImportedColumns().includes(column));
+      if (importMode === 'upsert' && activeKeyColumns.length === 0) {
+        toast({
+          title: "Keine Schlüsselspalte",
+          description: "Bitte wählen Sie mindestens eine Schlüsselspalte, über die bestehende Zeilen erkannt werden.",
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      // Duplicates have to be reviewed before they are merged or dropped
+      if (duplicateKeyColumns.length > 0 && duplicateStrategy !== 'import_all' && duplicateGroups === null) {
+        const groups = await checkDuplicates();
+        if (groups === null) {
+          return;
+        }
+        if (groups.length > 0) {
+          duplicateReviewRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+          toast({
+            title: `${groups.length} Duplikatgruppe(n) gefunden`,
+            description: "Bitte prüfen Sie die Duplikate und die gewählte Behandlung und starten Sie den Import erneut.",
+            duration: 8000,
+          });
+          return;
+        }
+      }
+      
       // Clear highlights if proceeding with import
       setHighlightUnmapped(false);
       setHighlightedColumns(new Set());
       
-      // Progress callback function - show dialog immediately when import starts
-      const progressCallback = (progress: ProgressInfo) => {
-        // Show dialog immediately when any progress is reported
-        setShowProgressDialog(true);
-        setProgressInfo(progress);
-        
-        // Auto-hide dialog when completed
-        if (progress.percentage >= 100) {
-          setTimeout(() => {
-            setShowProgressDialog(false);
-            setProgressInfo(null);
-          }, 3000); // Show completion for 3 seconds
-        }
-      };
-      
       // Add progress tracking for the UI
-      await onMappingComplete(finalMappings, progressCallback);
+      await onMappingComplete(finalMappings, progressCallback, {
+        delimiter,
+        encoding: encoding || undefined,
+        fields,
+        mode: importMode,
+        targetTableId: importMode !== 'create' ? targetTableId || undefined : undefined,
+        keyColumns: importMode === 'upsert' ? activeKeyColumns : undefined,
+        duplicateKeyColumns,
+        duplicateStrategy,
+        columnRules: getColumnRules(),
+        validationRules: activeValidationRules,
+      }, getConfirmedMappings());
       
     } catch (error) {
       setShowProgressDialog(false);
@@ -311,6 +923,37 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
     }
   };
 
+  const handleResumeImport = async () => {
+    if (!interruptedJob) return;
+    setShowProgressDialog(false);
+    setProgressInfo(null);
+    setIsProcessing(true);
+    
+    try {
+      // Resume with the mapping and options the job was started with
+      await onMappingComplete(interruptedJob.mappings, progressCallback, { ...interruptedJob.options, resumeJobId: interruptedJob.id });
+    } catch (error) {
+      setShowProgressDialog(false);
+      if (error instanceof Error && error.message === 'Import cancelled by user') {
+        return;
+      }
+      toast({
+        title: "Import-Fehler",
+        description: "Der Import konnte nicht fortgesetzt werden. Bitte versuchen Sie es erneut.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+      getInterruptedImportJob().then(setInterruptedJob);
+    }
+  };
+
+  const handleDiscardImportJob = async () => {
+    if (!interruptedJob) return;
+    await discardImportJob(interruptedJob.id);
+    setInterruptedJob(null);
+  };
+
   const getMappingStats = () => {
     const total = userColumns.length;
     const matched = Object.values(mappings).filter(m => m.isMatched).length;
@@ -350,6 +993,8 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
   }
 
   const stats = getMappingStats();
+  const mergeRules = getMergeRules();
+  const previewRows = getPreviewRows(20);
 
   return (
     <>
@@ -391,6 +1036,61 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
           </p>
         </div>
 
+        {/* Interrupted Import */}
+        {interruptedJob && (
+          <Card className="mb-8 bg-gradient-to-r from-amber-900/40 to-orange-900/40 border-amber-500/40 backdrop-blur-sm shadow-xl shadow-amber-900/30">
+            <CardContent className="p-6 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="p-2 rounded-lg bg-gradient-to-r from-amber-600 to-orange-600 w-fit">
+                <History className="h-5 w-5 text-white" />
+              </div>
+              <div className="flex-1">
+                <div className="text-white font-semibold">Unterbrochener Import gefunden</div>
+                <div className="text-sm text-gray-300">
+                  Tabelle „{interruptedJob.tableName}“: {interruptedJob.completedBatches.length} von {interruptedJob.totalBatches || '?'} Batches abgeschlossen
+                  {' '}({interruptedJob.created} Datensätze angelegt).
+                  {interruptedJob.options.mode === 'upsert'
+                    ? ' Beim Fortsetzen wird die ganze Datei erneut abgeglichen; bereits geschriebene Zeilen werden über den Schlüssel erkannt.'
+                    : ' Der Import wird nach dem letzten bestätigten Batch fortgesetzt; danach schon geschriebene Zeilen werden erkannt und nicht doppelt angelegt.'}
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={handleDiscardImportJob}
+                  disabled={isProcessing}
+                  className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:text-white"
+                >
+                  Verwerfen
+                </Button>
+                <Button
+                  onClick={handleResumeImport}
+                  disabled={isProcessing}
+                  className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white border-0"
+                >
+                  Import fortsetzen
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Mapping Templates */}
+        <MappingTemplates
+          templates={templates}
+          suggestion={templateSuggestion}
+          appliedTemplateId={appliedTemplateId}
+          onApply={applyTemplate}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+        />
+
+        {/* Learned Mappings */}
+        <LearnedMappings
+          learned={learnedMappings}
+          onDelete={handleDeleteLearnedMapping}
+          onClear={handleClearLearnedMappings}
+        />
+
         {/* Stats Cards */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-12">
           <Card className="bg-gradient-to-br from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm hover:shadow-blue-500/20 transition-all duration-300 shadow-xl shadow-slate-900/50">
@@ -431,8 +1131,129 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
               </span>
             </CardTitle>
           </CardHeader>
+          <CardContent className="pt-0">
+            <div className="flex flex-col md:flex-row md:items-center gap-3 mb-4">
+              <span className="text-sm text-gray-300 font-medium md:w-40">Importziel</span>
+              <div className="md:w-64">
+                <SimpleSelect
+                  id="import-mode-select"
+                  value={importMode}
+                  onValueChange={handleImportModeChange}
+                  options={[
+                    { value: 'create', label: 'Neue Tabelle erstellen' },
+                    { value: 'append', label: 'An bestehende Tabelle anhängen' },
+                    { value: 'upsert', label: 'Bestehende Tabelle aktualisieren' },
+                  ]}
+                />
+              </div>
+              {importMode !== 'create' && (
+                <div className="md:w-64">
+                  <SimpleSelect
+                    id="target-table-select"
+                    value={targetTableId || undefined}
+                    onValueChange={handleTargetTableChange}
+                    placeholder="Tabelle auswählen"
+                    options={targetTables.map(table => ({ value: table.id, label: table.name }))}
+                  />
+                </div>
+              )}
+            </div>
+            {importMode === 'upsert' && (
+              <div className="flex flex-col md:flex-row md:items-start gap-3 mb-4">
+                <span className="text-sm text-gray-300 font-medium md:w-40 md:pt-1">Schlüsselspalten</span>
+                <div className="flex-1">
+                  <div className="flex flex-wrap gap-2">
+                    {getImportedColumns().map(column => (
+                      <button
+                        key={column}
+                        type="button"
+                        onClick={() => toggleKeyColumn(column)}
+                        className={`font-mono text-xs px-2 py-1 rounded border transition-colors ${
+                          keyColumns.includes(column)
+                            ? 'border-purple-400/60 bg-purple-500/30 text-purple-100'
+                            : 'border-slate-600 bg-slate-700/60 text-gray-300 hover:border-slate-500'
+                        }`}
+                      >
+                        {column}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-400 mt-2">
+                    Zeilen mit gleichen Werten in allen Schlüsselspalten werden aktualisiert, alle anderen neu angelegt.
+                  </div>
+                </div>
+              </div>
+            )}
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
+              <span className="text-sm text-gray-300 font-medium md:w-40">Trennzeichen</span>
+              <div className="md:w-64">
+                <SimpleSelect
+                  id="delimiter-select"
+                  value={delimiter}
+                  onValueChange={handleDelimiterChange}
+                  options={CSV_DELIMITERS.map(option => ({
+                    value: option.value,
+                    label: option.value === detectedDelimiter ? `${option.label} – erkannt` : option.label,
+                  }))}
+                />
+              </div>
+              {detectedDelimiter && delimiter !== detectedDelimiter && (
+                <Badge variant="outline" className="border-amber-400/50 bg-amber-500/20 text-amber-300 w-fit">
+                  Manuell geändert – erkannt: {getDelimiterLabel(detectedDelimiter)}
+                </Badge>
+              )}
+            </div>
+            {canChangeEncoding && encoding && (
+              <div className="flex flex-col md:flex-row md:items-center gap-3 mt-4">
+                <span className="text-sm text-gray-300 font-medium md:w-40">Zeichenkodierung</span>
+                <div className="md:w-64">
+                  <SimpleSelect
+                    id="encoding-select"
+                    value={encoding}
+                    onValueChange={handleEncodingChange}
+                    options={FILE_ENCODINGS.map(option => ({
+                      value: option.value,
+                      label: option.value === detectedEncoding ? `${option.label} – erkannt` : option.label,
+                    }))}
+                  />
+                </div>
+                {detectedEncoding && encoding !== detectedEncoding && (
+                  <Badge variant="outline" className="border-amber-400/50 bg-amber-500/20 text-amber-300 w-fit">
+                    Manuell geändert – erkannt: {getEncodingLabel(detectedEncoding)}
+                  </Badge>
+                )}
+              </div>
+            )}
+            {userColumns.length > 0 && (
+              <div className="mt-4">
+                <div className="text-xs text-gray-400 mb-2">Vorschau der Spaltenüberschriften – prüfen Sie Umlaute wie ä, ö, ü und ß:</div>
+                <div className="flex flex-wrap gap-2">
+                  {userColumns.map(column => (
+                    <span key={column} className="font-mono text-xs bg-slate-700/60 text-gray-200 px-2 py-1 rounded">
+                      {column}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
         </Card>
 
+        {/* Duplicate Review */}
+        <div ref={duplicateReviewRef}>
+          <DuplicateReview
+            columns={userColumns}
+            keyColumns={duplicateKeyColumns}
+            onKeyColumnsChange={handleDuplicateKeyColumnsChange}
+            strategy={duplicateStrategy}
+            onStrategyChange={setDuplicateStrategy}
+            headers={duplicateHeaders}
+            groups={duplicateGroups}
+            isChecking={isCheckingDuplicates}
+            onCheck={checkDuplicates}
+          />
+        </div>
+
         {/* Column Mappings */}
         <Card className="bg-gradient-to-br from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-2xl shadow-slate-900/50">
           <CardHeader>
@@ -445,15 +1266,20 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
             <div className="space-y-6">
               {userColumns.map((userColumn, index) => {
                 const mapping = mappings[userColumn];
-                const availableColumns = getAvailableTargetColumns(userColumn);
+                const mergeTargetColumns = getMergeTargetColumns(userColumn);
+                const splitRule = !mapping.isIgnored ? splitRules[userColumn] : undefined;
                 
                 // Prepare options for SearchableSelect
                 const selectOptions = [
                   { value: 'ignore', label: '❌ Ignorieren' },
                   { value: 'add_new', label: '➕ Als neue Spalte hinzufügen' },
-                  ...availableColumns.map(col => ({ value: col, label: `🎯 ${col}` })),
+                  { value: 'split', label: '✂️ In mehrere Spalten aufteilen' },
+                  ...targetColumns.map(col => ({
+                    value: col,
+                    label: mergeTargetColumns.includes(col) ? `🔗 ${col} (zusammenführen)` : `🎯 ${col}`,
+                  })),
                   // Include current mapping even if not available
-                  ...(mapping.targetColumn && !availableColumns.includes(mapping.targetColumn) 
+                  ...(mapping.targetColumn && !targetColumns.includes(mapping.targetColumn) 
                     ? [{ value: mapping.targetColumn, label: `🎯 ${mapping.targetColumn}` }] 
                     : [])
                 ];
@@ -461,6 +1287,7 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
                 // Determine placeholder text based on mapping state
                 const getPlaceholderText = () => {
                   if (mapping.isIgnored) return 'Ignoriert';
+                  if (splitRule) return 'Wird aufgeteilt';
                   if (mapping.targetColumn) return mapping.targetColumn;
                   return 'Neue Spalte wird hinzugefügt';
                 };
@@ -468,9 +1295,11 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
                 const isUnmapped = !mapping.isMatched && !mapping.isIgnored;
                 const shouldHighlight = highlightUnmapped && isUnmapped;
                 const isSpeciallyHighlighted = highlightedColumns.has(userColumn);
-                const isAddNew = mapping.isMatched && !mapping.targetColumn && !mapping.isIgnored;
+                const isAddNew = mapping.isMatched && !mapping.targetColumn && !mapping.isIgnored && !splitRule;
                 
                 const isLocked = mapping.isMatched && mapping.similarity === 100 && mapping.targetColumn;
+                const columnStats = getColumnStats(sampleValues[userColumn] || []);
+                const columnTransforms = transforms[userColumn] || [];
                 return (
                   <div
                     key={index}
@@ -484,6 +1313,8 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
                         ? 'border-green-400/50 bg-gradient-to-r from-green-900/30 to-emerald-900/30 shadow-green-500/20 hover:shadow-green-500/40'
                         : isAddNew
                         ? 'border-blue-400/50 bg-gradient-to-r from-blue-900/30 to-cyan-900/30 shadow-blue-500/20 hover:shadow-blue-500/40'
+                        : splitRule
+                        ? 'border-purple-400/50 bg-gradient-to-r from-purple-900/30 to-indigo-900/30 shadow-purple-500/20 hover:shadow-purple-500/40'
                         : mapping.isIgnored
                         ? 'border-orange-400/50 bg-gradient-to-r from-orange-900/30 to-yellow-900/30 shadow-orange-500/20 hover:shadow-orange-500/40'
                         : 'border-slate-600/50 bg-gradient-to-r from-slate-800/50 to-slate-700/50 shadow-slate-500/20 hover:shadow-slate-500/40 hover:border-slate-500/70'
@@ -498,6 +1329,8 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
                                 ? 'border-green-400/50 bg-green-500/20 text-green-300'
                                 : isAddNew
                                 ? 'border-blue-400/50 bg-blue-500/20 text-blue-300'
+                                : splitRule
+                                ? 'border-purple-400/50 bg-purple-500/20 text-purple-300'
                                 : mapping.isIgnored
                                 ? 'border-orange-400/50 bg-orange-500/20 text-orange-300'
                                 : 'border-slate-400/50 bg-slate-500/20 text-slate-300'
@@ -509,11 +1342,27 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
                                 {mapping.similarity}% Match
                               </Badge>
                             )}
+                            {mapping.isMatched && mapping.targetColumn && mapping.matchReason && (
+                              <span className="text-xs text-gray-400">{mapping.matchReason}</span>
+                            )}
                             {isAddNew && (
                               <Badge className="bg-gradient-to-r from-blue-600 to-cyan-600 text-white border-0 shadow-lg shadow-blue-500/30">
                                 Neue Spalte
                               </Badge>
                             )}
+                            {splitRule && (
+                              <Badge className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white border-0 shadow-lg shadow-purple-500/30">
+                                Aufgeteilt in {splitRule.targets.filter(Boolean).length}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="mt-2 text-xs text-gray-400 truncate" title={columnStats.examples.join(' · ')}>
+                            {columnStats.examples.length > 0 ? (
+                              <>Beispiele: <span className="text-gray-300">{columnStats.examples.join(' · ')}</span></>
+                            ) : (
+                              'Keine Werte in den ersten Zeilen'
+                            )}
+                            {' '}· {columnStats.distinctCount} verschiedene · {columnStats.emptyRatio}% leer
                           </div>
                         </div>
                         
@@ -527,7 +1376,7 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
                           <div className={isLocked ? 'pointer-events-none opacity-70' : ''}>
                             <SimpleSelect
                               id={`column-select-${index}`}
-                              value={mapping.isIgnored ? 'ignore' : mapping.targetColumn || 'add_new'}
+                              value={mapping.isIgnored ? 'ignore' : splitRule ? 'split' : mapping.targetColumn || 'add_new'}
                               onValueChange={(value) => handleMappingChange(userColumn, value)}
                               placeholder={getPlaceholderText()}
                               options={selectOptions}
@@ -547,6 +1396,11 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
                             <CheckCircle className="h-6 w-6 text-blue-400" />
                             <div className="absolute inset-0 rounded-full bg-blue-400/20"></div>
                           </div>
+                        ) : splitRule ? (
+                          <div className="relative">
+                            <CheckCircle className="h-6 w-6 text-purple-400" />
+                            <div className="absolute inset-0 rounded-full bg-purple-400/20"></div>
+                          </div>
                         ) : mapping.isIgnored ? (
                           <AlertCircle className="h-6 w-6 text-orange-400" />
                         ) : (
@@ -554,6 +1408,114 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
                         )}
                       </div>
                     </div>
+                    
+                    {!isLocked && mapping.suggestions.length > 0 && (
+                      <div className="mt-4 flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-gray-400">Vorschläge:</span>
+                        {mapping.suggestions.map(candidate => (
+                          <button
+                            key={candidate.column}
+                            type="button"
+                            onClick={() => handleSuggestionPick(userColumn, candidate)}
+                            title={describeMatchCandidate(candidate)}
+                            className={`text-xs px-2 py-1 rounded border transition-colors ${
+                              mapping.targetColumn === candidate.column && !mapping.isIgnored
+                                ? 'border-green-400/60 bg-green-500/30 text-green-100'
+                                : 'border-slate-600 bg-slate-700/60 text-gray-300 hover:border-slate-500 hover:text-white'
+                            }`}
+                          >
+                            <span className="font-mono">{candidate.column}</span>
+                            <span className="ml-2 text-gray-400">{candidate.similarity}% · {describeMatchCandidate(candidate)}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    
+                    {!mapping.isIgnored && mapping.targetColumn && targetFieldTypes[mapping.targetColumn] && (
+                      <div className="mt-4 pt-4 border-t border-slate-600/40 flex flex-col md:flex-row md:items-center gap-4 text-xs text-gray-400">
+                        <span>
+                          Feldtyp aus der Zieltabelle: <span className="text-gray-200 font-medium">{getFieldTypeLabel(targetFieldTypes[mapping.targetColumn])}</span>
+                        </span>
+                        {['number', 'date'].includes(targetFieldTypes[mapping.targetColumn]) && (
+                          <div className="flex items-center gap-2 md:w-96">
+                            <span className="whitespace-nowrap">Schreibweise in der Datei:</span>
+                            <SimpleSelect
+                              id={`locale-${index}`}
+                              value={mapping.fieldOptions.locale || DEFAULT_VALUE_LOCALE}
+                              onValueChange={(value) => handleFieldTypeChange(userColumn, mapping.fieldType, { ...mapping.fieldOptions, locale: value as ValueLocale })}
+                              options={VALUE_LOCALE_OPTIONS}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {splitRule && (
+                      <div className="mt-4 pt-4 border-t border-slate-600/40">
+                        <SplitRuleSettings
+                          id={`split-${index}`}
+                          rule={splitRule}
+                          targetColumns={targetColumns}
+                          sampleValues={sampleValues[userColumn] || []}
+                          onChange={handleSplitRuleChange}
+                        />
+                      </div>
+                    )}
+                    {!mapping.isIgnored && !splitRule && !(mapping.targetColumn && targetFieldTypes[mapping.targetColumn]) && (
+                      <div className="mt-4 pt-4 border-t border-slate-600/40">
+                        <FieldTypeSettings
+                          id={`field-type-${index}`}
+                          fieldType={mapping.fieldType}
+                          fieldOptions={mapping.fieldOptions}
+                          detectedType={mapping.detectedType}
+                          onChange={(fieldType, fieldOptions) => handleFieldTypeChange(userColumn, fieldType, fieldOptions)}
+                        />
+                      </div>
+                    )}
+                    {!mapping.isIgnored && (
+                      <div className="mt-4 pt-4 border-t border-slate-600/40 space-y-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleTransforms(userColumn)}
+                            className="text-gray-300 hover:text-white hover:bg-slate-700/60"
+                          >
+                            <Wand2 className="h-4 w-4 mr-2" />
+                            Transformationen{columnTransforms.length > 0 ? ` (${columnTransforms.length})` : ''}
+                          </Button>
+                          {mapping.detectedType === 'phone_number' && !columnTransforms.some(step => step.type === 'phone') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleAddPhoneNormalizer(userColumn)}
+                              className="text-cyan-300 hover:text-white hover:bg-slate-700/60"
+                            >
+                              <Phone className="h-4 w-4 mr-2" />
+                              Telefonnummern normalisieren
+                            </Button>
+                          )}
+                          {looksLikeEmailColumn(sampleValues[userColumn] || []) && !columnTransforms.some(step => step.type === 'email') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleAddEmailCleanup(userColumn)}
+                              className="text-cyan-300 hover:text-white hover:bg-slate-700/60"
+                            >
+                              <Mail className="h-4 w-4 mr-2" />
+                              E-Mail-Adressen bereinigen
+                            </Button>
+                          )}
+                        </div>
+                        {expandedTransforms.has(userColumn) && (
+                          <TransformationSettings
+                            id={`transforms-${index}`}
+                            steps={columnTransforms}
+                            sampleValues={sampleValues[userColumn] || []}
+                            onChange={(steps) => handleTransformsChange(userColumn, steps)}
+                          />
+                        )}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -561,6 +1523,30 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
           </CardContent>
         </Card>
 
+        {/* Extra Columns */}
+        <ExtraColumns
+          columns={extraColumns}
+          availableColumns={[...new Set([...getMappedTargetColumns(getFinalMappings(), { splits: getSplitRules() }), ...userColumns])]}
+          examples={previewRows[0] || {}}
+          onChange={setExtraColumns}
+        />
+
+        {/* Merged Columns */}
+        {mergeRules.length > 0 && (
+          <MergeRules rules={mergeRules} examples={previewRows[0] || {}} onChange={handleMergeRuleChange} />
+        )}
+
+        {/* Validation Rules */}
+        <ValidationRules
+          rules={validationRules}
+          columns={getImportedColumns()}
+          sampleRows={previewRows}
+          onChange={setValidationRules}
+        />
+
+        {/* Preview */}
+        <MappingPreview columns={getPreviewColumns()} rows={previewRows} />
+
         {/* Action Buttons */}
         <div className="flex justify-between mt-12">
           <Button 
@@ -584,10 +1570,10 @@ const ColumnMapping: React.FC<ColumnMappingProps> = ({ uploadedFile, onMappingCo
             {isProcessing ? (
               <>
                 <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-3"></div>
-                <span className="font-medium">Importiere...</span>
+                <span className="font-medium">Verarbeite...</span>
               </>
             ) : (
-              <span className="font-medium">Import starten</span>
+              <span className="font-medium">Import prüfen</span>
             )}
           </Button>
         </div>
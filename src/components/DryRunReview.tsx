@@ -0,0 +1,163 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, ClipboardCheck } from 'lucide-react';
+import type { ImportMode } from '@/utils/baserowApi';
+import type { DryRunReport } from '@/utils/dryRun';
+import { DUPLICATE_STRATEGIES } from '@/utils/duplicates';
+import { getFieldTypeLabel } from '@/utils/fieldTypes';
+
+interface DryRunReviewProps {
+  report: DryRunReport;
+  mode: ImportMode;
+  isImporting: boolean;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+const DryRunReview: React.FC<DryRunReviewProps> = ({ report, mode, isImporting, onBack, onConfirm }) => {
+  const strategyLabel = DUPLICATE_STRATEGIES.find(strategy => strategy.value === report.duplicateStrategy)?.label;
+
+  const tiles = [
+    { label: 'Zeilen in der Datei', value: report.totalRows, className: 'bg-slate-500/20 border-slate-500/30 text-slate-200' },
+    { label: 'Leere Zeilen übersprungen', value: report.emptyRows + report.unmappedRows, className: 'bg-slate-500/20 border-slate-500/30 text-slate-200' },
+    { label: 'Doppelte Zeilen', value: report.duplicateRows, className: 'bg-amber-500/20 border-amber-500/30 text-amber-300' },
+    { label: 'Zeilen mit Typfehlern', value: report.rowsWithErrors, className: report.rowsWithErrors > 0 ? 'bg-red-500/20 border-red-500/30 text-red-300' : 'bg-slate-500/20 border-slate-500/30 text-slate-200' },
+    { label: 'Ausgelassen (Prüfregeln)', value: report.invalidRows, className: report.invalidRows > 0 ? 'bg-red-500/20 border-red-500/30 text-red-300' : 'bg-slate-500/20 border-slate-500/30 text-slate-200' },
+    { label: 'Mit Warnung', value: report.flaggedRows, className: report.flaggedRows > 0 ? 'bg-amber-500/20 border-amber-500/30 text-amber-300' : 'bg-slate-500/20 border-slate-500/30 text-slate-200' },
+    { label: 'Zu importieren', value: report.importRows, className: 'bg-green-500/20 border-green-500/30 text-green-400' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-blue-900 px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <Card className="bg-gradient-to-r from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-xl shadow-slate-900/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-white">
+              <div className="p-2 rounded-lg bg-gradient-to-r from-purple-600 to-cyan-600">
+                <ClipboardCheck className="h-5 w-5 text-white" />
+              </div>
+              <span className="bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+                Prüfbericht vor dem Import
+              </span>
+            </CardTitle>
+            <p className="text-sm text-gray-400">
+              {mode === 'upsert'
+                ? `Abgleich mit Tabelle "${report.tableName}".`
+                : mode === 'append'
+                ? `Anhängen an Tabelle "${report.tableName}".`
+                : `Neue Tabelle "${report.tableName}".`}
+              {' '}Es wurde noch nichts in Baserow geschrieben.
+            </p>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4">
+              {tiles.map(tile => (
+                <div key={tile.label} className={`border p-4 rounded-lg ${tile.className}`}>
+                  <div className="text-2xl font-bold">{tile.value}</div>
+                  <div className="text-sm text-slate-300">{tile.label}</div>
+                </div>
+              ))}
+            </div>
+
+            {report.duplicateGroups > 0 && (
+              <div className="text-sm text-amber-200 bg-amber-500/10 border border-amber-500/30 p-3 rounded-lg">
+                {report.duplicateGroups} Duplikatgruppe(n) – {strategyLabel}: {report.duplicatesRemoved} Zeile(n) werden nicht separat importiert.
+              </div>
+            )}
+
+            {report.rowsWithErrors > 0 && (
+              <div className="flex items-start gap-2 text-sm text-red-200 bg-red-500/10 border border-red-500/30 p-3 rounded-lg">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                Werte, die nicht zum Feldtyp passen, werden von Baserow voraussichtlich abgelehnt. Die betroffenen Zeilen erscheinen nach dem Import im Fehlerbericht.
+              </div>
+            )}
+
+            {report.roundedRows > 0 && (
+              <div className="flex items-start gap-2 text-sm text-amber-200 bg-amber-500/10 border border-amber-500/30 p-3 rounded-lg">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                {report.roundedRows} Zeile(n) enthalten Zahlen mit mehr Nachkommastellen, als die Zielspalte speichert. Diese Werte werden gerundet.
+              </div>
+            )}
+
+            <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-800">
+                  <tr className="text-gray-400 text-xs">
+                    <th className="text-left font-medium px-3 py-2">Zielspalte</th>
+                    <th className="text-left font-medium px-3 py-2">Quelle</th>
+                    <th className="text-left font-medium px-3 py-2">Feldtyp</th>
+                    <th className="text-left font-medium px-3 py-2 w-48">Füllgrad</th>
+                    <th className="text-left font-medium px-3 py-2">Typfehler</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.columns.map(column => (
+                    <tr key={column.column} className="border-t border-slate-700/50 text-gray-200 align-top">
+                      <td className="px-3 py-2 font-mono">{column.column}</td>
+                      <td className="px-3 py-2 font-mono text-gray-400">{column.sourceColumns.join(', ')}</td>
+                      <td className="px-3 py-2">{getFieldTypeLabel(column.type)}</td>
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 rounded bg-slate-700">
+                            <div className="h-2 rounded bg-gradient-to-r from-purple-500 to-cyan-500" style={{ width: `${column.fillRate}%` }} />
+                          </div>
+                          <span className="text-xs text-gray-400 w-10 text-right">{column.fillRate}%</span>
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 space-y-1">
+                        {column.conversionFailures === 0 ? (
+                          <Badge variant="outline" className="border-green-400/50 bg-green-500/20 text-green-300">Keine</Badge>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge variant="outline" className="border-red-400/50 bg-red-500/20 text-red-300">{column.conversionFailures}</Badge>
+                            {column.failureSamples.map(sample => (
+                              <div key={`${sample.lineNumber}-${sample.value}`} className="text-xs text-gray-400">
+                                Zeile {sample.lineNumber}: <span className="font-mono text-red-200">{sample.value}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {column.roundedValues > 0 && (
+                          <div className="space-y-1">
+                            <Badge variant="outline" className="border-amber-400/50 bg-amber-500/20 text-amber-300">{column.roundedValues} gerundet</Badge>
+                            {column.roundedSamples.map(sample => (
+                              <div key={`${sample.lineNumber}-${sample.value}`} className="text-xs text-gray-400">
+                                Zeile {sample.lineNumber}: <span className="font-mono text-amber-200">{sample.value}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-between mt-8">
+          <Button
+            variant="outline"
+            onClick={onBack}
+            disabled={isImporting}
+            className="px-8 py-3 bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:border-slate-500 hover:text-white"
+          >
+            Zurück zur Zuordnung
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={isImporting || report.importRows === 0}
+            className="px-8 py-3 text-white border-0 bg-gradient-to-r from-green-600 via-emerald-600 to-cyan-600 hover:from-green-700 hover:via-emerald-700 hover:to-cyan-700"
+          >
+            {isImporting ? 'Importiere...' : `${report.importRows} Zeilen importieren`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DryRunReview;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { SimpleSelect } from '@/components/ui/simple-select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Copy } from 'lucide-react';
+import { DuplicateGroup, DuplicateStrategy, DUPLICATE_STRATEGIES } from '@/utils/duplicates';
+
+interface DuplicateReviewProps {
+  columns: string[];
+  keyColumns: string[];
+  onKeyColumnsChange: (keyColumns: string[]) => void;
+  strategy: DuplicateStrategy;
+  onStrategyChange: (strategy: DuplicateStrategy) => void;
+  headers: string[];
+  groups: DuplicateGroup[] | null; // null until the file has been checked
+  isChecking: boolean;
+  onCheck: () => void;
+}
+
+// Only the first groups are listed; the strategy applies to all of them
+const MAX_VISIBLE_GROUPS = 20;
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({
+  columns,
+  keyColumns,
+  onKeyColumnsChange,
+  strategy,
+  onStrategyChange,
+  headers,
+  groups,
+  isChecking,
+  onCheck,
+}) => {
+  const toggleKeyColumn = (column: string) => {
+    onKeyColumnsChange(keyColumns.includes(column) ? keyColumns.filter(key => key !== column) : [...keyColumns, column]);
+  };
+
+  const duplicateCount = (groups || []).reduce((sum, group) => sum + group.records.length - 1, 0);
+
+  return (
+    <Card className="mb-8 bg-gradient-to-r from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-xl shadow-slate-900/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-white">
+          <div className="p-2 rounded-lg bg-gradient-to-r from-amber-600 to-orange-600">
+            <Copy className="h-5 w-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            Duplikate in der Datei
+          </span>
+          {groups && (
+            <Badge variant="outline" className={groups.length > 0
+              ? 'border-amber-400/50 bg-amber-500/20 text-amber-300'
+              : 'border-green-400/50 bg-green-500/20 text-green-300'
+            }>
+              {groups.length > 0 ? `${groups.length} Gruppen, ${duplicateCount} doppelte Zeilen` : 'Keine Duplikate'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-start gap-3">
+          <span className="text-sm text-gray-300 font-medium md:w-40 md:pt-1">Vergleichsspalten</span>
+          <div className="flex-1">
+            <div className="flex flex-wrap gap-2">
+              {columns.map(column => (
+                <button
+                  key={column}
+                  type="button"
+                  onClick={() => toggleKeyColumn(column)}
+                  className={`font-mono text-xs px-2 py-1 rounded border transition-colors ${
+                    keyColumns.includes(column)
+                      ? 'border-amber-400/60 bg-amber-500/30 text-amber-100'
+                      : 'border-slate-600 bg-slate-700/60 text-gray-300 hover:border-slate-500'
+                  }`}
+                >
+                  {column}
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-gray-400 mt-2">
+              Zeilen mit gleichen Werten in allen Vergleichsspalten gelten als Duplikat (Groß-/Kleinschreibung und Leerzeichen werden ignoriert).
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <span className="text-sm text-gray-300 font-medium md:w-40">Behandlung</span>
+          <div className="md:w-80">
+            <SimpleSelect
+              id="duplicate-strategy-select"
+              value={strategy}
+              onValueChange={(value) => onStrategyChange(value as DuplicateStrategy)}
+              options={DUPLICATE_STRATEGIES}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={onCheck}
+            disabled={isChecking || keyColumns.length === 0}
+            className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:border-slate-500 hover:text-white"
+          >
+            {isChecking ? 'Prüfe...' : 'Duplikate prüfen'}
+          </Button>
+        </div>
+
+        {groups && groups.length > 0 && (
+          <div className="space-y-3">
+            {groups.slice(0, MAX_VISIBLE_GROUPS).map(group => (
+              <div key={group.key} className="rounded-lg border border-slate-600/50 bg-slate-800/50 overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-400">
+                      <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Zeile</th>
+                      {headers.map((header, index) => (
+                        <th
+                          key={index}
+                          className={`text-left font-medium px-3 py-2 whitespace-nowrap ${keyColumns.includes(header) ? 'text-amber-300' : ''}`}
+                        >
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.records.map(record => (
+                      <tr key={record.lineNumber} className="border-t border-slate-700/50 text-gray-200">
+                        <td className="px-3 py-1.5 font-mono text-gray-400">{record.lineNumber}</td>
+                        {headers.map((_, index) => (
+                          <td key={index} className="px-3 py-1.5 whitespace-nowrap max-w-[16rem] truncate">
+                            {record.values[index] ?? ''}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+            {groups.length > MAX_VISIBLE_GROUPS && (
+              <div className="text-xs text-gray-400">
+                … und {groups.length - MAX_VISIBLE_GROUPS} weitere Gruppen.
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Mail } from 'lucide-react';
+import { EMAIL_FLAG_LABELS, EmailFinding, EmailFlag } from '@/utils/emailAddresses';
+
+interface EmailReportProps {
+  findings: EmailFinding[];
+}
+
+// Only the first addresses are listed; the counts cover all of them
+const MAX_VISIBLE_ROWS = 50;
+
+const FLAG_CLASS_NAMES: Record<EmailFlag, string> = {
+  invalid: 'bg-red-500/20 text-red-300 border-red-500/50',
+  role: 'bg-amber-500/20 text-amber-300 border-amber-500/50',
+  disposable: 'bg-orange-500/20 text-orange-300 border-orange-500/50',
+};
+
+const FLAGS: EmailFlag[] = ['invalid', 'disposable', 'role'];
+
+const EmailReport: React.FC<EmailReportProps> = ({ findings }) => {
+  const countFlag = (flag: EmailFlag) => findings.filter(finding => finding.flag === flag).length;
+  // Invalid addresses first, they need fixing
+  const sorted = FLAGS.flatMap(flag => findings.filter(finding => finding.flag === flag));
+
+  return (
+    <div className="text-left bg-cyan-500/10 border border-cyan-500/30 p-4 rounded-lg mb-6">
+      <div className="flex flex-col md:flex-row md:items-center gap-3 mb-3">
+        <h3 className="font-semibold text-cyan-300 flex items-center gap-2 flex-1">
+          <Mail className="h-4 w-4" />
+          E-Mail-Prüfung: {findings.length} auffällige Adresse(n)
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          {FLAGS.filter(flag => countFlag(flag) > 0).map(flag => (
+            <Badge key={flag} variant="outline" className={FLAG_CLASS_NAMES[flag]}>
+              {countFlag(flag)} {EMAIL_FLAG_LABELS[flag]}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-auto rounded border border-slate-700/50">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-slate-800">
+            <tr className="text-gray-400">
+              <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Zeile</th>
+              <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Spalte</th>
+              <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Adresse</th>
+              <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Hinweis</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.slice(0, MAX_VISIBLE_ROWS).map((finding, rowIndex) => (
+              <tr key={`${finding.lineNumber}-${rowIndex}`} className="border-t border-slate-700/50 text-gray-200">
+                <td className="px-3 py-1.5 font-mono text-gray-400">{finding.lineNumber}</td>
+                <td className="px-3 py-1.5 whitespace-nowrap">{finding.column}</td>
+                <td className="px-3 py-1.5 font-mono max-w-[20rem] truncate">{finding.address}</td>
+                <td className="px-3 py-1.5">
+                  <Badge variant="outline" className={FLAG_CLASS_NAMES[finding.flag]}>{EMAIL_FLAG_LABELS[finding.flag]}</Badge>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {findings.length > MAX_VISIBLE_ROWS && (
+        <div className="text-xs text-gray-400 mt-2">
+          … und {findings.length - MAX_VISIBLE_ROWS} weitere Adressen.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmailReport;
@@ -0,0 +1,149 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { SimpleSelect } from '@/components/ui/simple-select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Plus, Tag, X } from 'lucide-react';
+import {
+  ExtraColumn,
+  ExtraColumnSource,
+  EXTRA_COLUMN_SOURCE_OPTIONS,
+  USER_DATA_OPTIONS,
+  createExtraColumn,
+  getUnknownPlaceholders,
+} from '@/utils/extraColumns';
+
+interface ExtraColumnsProps {
+  columns: ExtraColumn[];
+  availableColumns: string[]; // Column names expressions may refer to
+  examples: Record<string, string>; // Value of each extra column in the first sample row
+  onChange: (columns: ExtraColumn[]) => void;
+}
+
+const inputClassName = "h-9 bg-slate-700/50 border-slate-600 text-white placeholder:text-gray-400 focus:border-purple-500 focus:ring-purple-500/30 backdrop-blur-sm";
+
+const ExtraColumns: React.FC<ExtraColumnsProps> = ({ columns, availableColumns, examples, onChange }) => {
+  const updateColumn = (index: number, changes: Partial<ExtraColumn>) => {
+    onChange(columns.map((column, columnIndex) => (columnIndex === index ? { ...column, ...changes } : column)));
+  };
+
+  const handleSourceChange = (index: number, value: string) => {
+    const { source, value: defaultValue } = createExtraColumn(value as ExtraColumnSource);
+    updateColumn(index, { source, value: defaultValue });
+  };
+
+  const renderValueField = (column: ExtraColumn, index: number) => {
+    switch (column.source) {
+      case 'constant':
+        return (
+          <Input
+            id={`extra-column-${index}-value`}
+            value={column.value}
+            onChange={(e) => updateColumn(index, { value: e.target.value })}
+            placeholder="z.B. Messe 2024"
+            className={inputClassName}
+          />
+        );
+      case 'user_data':
+        return (
+          <SimpleSelect
+            id={`extra-column-${index}-value`}
+            value={column.value}
+            onValueChange={(value) => updateColumn(index, { value })}
+            options={USER_DATA_OPTIONS}
+          />
+        );
+      case 'expression':
+        return (
+          <Input
+            id={`extra-column-${index}-value`}
+            value={column.value}
+            onChange={(e) => updateColumn(index, { value: e.target.value })}
+            placeholder="z.B. {Vorname} {Nachname}"
+            className={`${inputClassName} font-mono`}
+          />
+        );
+      default:
+        return <div className="h-9 flex items-center text-xs text-gray-400">Wird beim Import gesetzt</div>;
+    }
+  };
+
+  return (
+    <Card className="mb-8 bg-gradient-to-r from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-xl shadow-slate-900/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-white">
+          <div className="p-2 rounded-lg bg-gradient-to-r from-amber-600 to-orange-600">
+            <Tag className="h-5 w-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            Zusatzspalten
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <p className="text-sm text-gray-400">
+          Spalten, die nicht aus der Datei stammen und in jeder Zeile gesetzt werden, z.B. Herkunft oder Importdatum.
+          Ausdrücke setzen Spalten mit {'{Spaltenname}'} zusammen.
+        </p>
+
+        {columns.map((column, index) => {
+          const unknownPlaceholders = column.source === 'expression' ? getUnknownPlaceholders(column.value, availableColumns) : [];
+          return (
+            <div key={index} className="rounded-lg border border-slate-600/50 bg-slate-800/50 p-4 space-y-2">
+              <div className="flex flex-col md:flex-row md:items-end gap-3">
+                <div className="space-y-1 md:w-48">
+                  <Label htmlFor={`extra-column-${index}-name`} className="text-xs font-medium text-gray-300">Spaltenname</Label>
+                  <Input
+                    id={`extra-column-${index}-name`}
+                    value={column.name}
+                    onChange={(e) => updateColumn(index, { name: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-1 md:w-64">
+                  <Label htmlFor={`extra-column-${index}-source`} className="text-xs font-medium text-gray-300">Wert</Label>
+                  <SimpleSelect
+                    id={`extra-column-${index}-source`}
+                    value={column.source}
+                    onValueChange={(value) => handleSourceChange(index, value)}
+                    options={EXTRA_COLUMN_SOURCE_OPTIONS}
+                  />
+                </div>
+                <div className="space-y-1 flex-1">{renderValueField(column, index)}</div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(columns.filter((_, columnIndex) => columnIndex !== index))}
+                  className="h-9 px-2 text-gray-400 hover:text-red-300 hover:bg-slate-600/60"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {unknownPlaceholders.length > 0 && (
+                <div className="text-xs text-amber-300">Unbekannte Spalten: {unknownPlaceholders.join(', ')}</div>
+              )}
+              {examples[column.name] && (
+                <div className="text-xs text-gray-400">
+                  Beispiel: <span className="font-mono text-gray-200">{examples[column.name]}</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...columns, createExtraColumn('constant')])}
+          className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:text-white"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Zusatzspalte hinzufügen
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExtraColumns;
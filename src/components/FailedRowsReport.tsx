@@ -0,0 +1,80 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Download, RotateCcw } from 'lucide-react';
+import type { FailedRecord } from '@/utils/baserowApi';
+
+interface FailedRowsReportProps {
+  headers: string[];
+  failedRecords: FailedRecord[];
+  isRetrying: boolean;
+  onDownload: () => void;
+  onRetry: () => void;
+}
+
+// Only the first rows are listed; the download contains all of them
+const MAX_VISIBLE_ROWS = 50;
+
+const FailedRowsReport: React.FC<FailedRowsReportProps> = ({ headers, failedRecords, isRetrying, onDownload, onRetry }) => {
+  return (
+    <div className="text-left bg-red-500/10 border border-red-500/30 p-4 rounded-lg mb-6">
+      <div className="flex flex-col md:flex-row md:items-center gap-3 mb-3">
+        <h3 className="font-semibold text-red-300 flex items-center gap-2 flex-1">
+          <AlertCircle className="h-4 w-4" />
+          {failedRecords.length} fehlgeschlagene Zeile(n)
+        </h3>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={onDownload}
+            className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:text-white"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Fehlerbericht (CSV)
+          </Button>
+          <Button
+            onClick={onRetry}
+            disabled={isRetrying}
+            className="bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-700 hover:to-orange-700 text-white border-0"
+          >
+            <RotateCcw className={`h-4 w-4 mr-2 ${isRetrying ? 'animate-spin' : ''}`} />
+            {isRetrying ? 'Sende erneut...' : 'Erneut senden'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-auto rounded border border-slate-700/50">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-slate-800">
+            <tr className="text-gray-400">
+              <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Zeile</th>
+              <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Fehler</th>
+              {headers.map((header, index) => (
+                <th key={index} className="text-left font-medium px-3 py-2 whitespace-nowrap">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {failedRecords.slice(0, MAX_VISIBLE_ROWS).map((record, rowIndex) => (
+              <tr key={`${record.lineNumber}-${rowIndex}`} className="border-t border-slate-700/50 text-gray-200 align-top">
+                <td className="px-3 py-1.5 font-mono text-gray-400">{record.lineNumber}</td>
+                <td className="px-3 py-1.5 text-red-300 min-w-[16rem]">{record.error}</td>
+                {headers.map((_, index) => (
+                  <td key={index} className="px-3 py-1.5 whitespace-nowrap max-w-[16rem] truncate">
+                    {record.values[index] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {failedRecords.length > MAX_VISIBLE_ROWS && (
+        <div className="text-xs text-gray-400 mt-2">
+          … und {failedRecords.length - MAX_VISIBLE_ROWS} weitere Zeilen im Fehlerbericht.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FailedRowsReport;
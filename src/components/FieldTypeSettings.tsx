@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { SimpleSelect } from '@/components/ui/simple-select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  BaserowFieldType,
+  DateFormat,
+  FieldOptions,
+  FIELD_TYPE_OPTIONS,
+  DATE_FORMAT_OPTIONS,
+  getDefaultFieldOptions,
+} from '@/utils/fieldTypes';
+import { ValueLocale, VALUE_LOCALE_OPTIONS, DEFAULT_VALUE_LOCALE } from '@/utils/valueParsing';
+
+interface FieldTypeSettingsProps {
+  id: string;
+  fieldType: BaserowFieldType;
+  fieldOptions: FieldOptions;
+  detectedType?: BaserowFieldType;
+  onChange: (fieldType: BaserowFieldType, fieldOptions: FieldOptions) => void;
+}
+
+const inputClassName = "h-9 bg-slate-700/50 border-slate-600 text-white placeholder:text-gray-400 focus:border-purple-500 focus:ring-purple-500/30 backdrop-blur-sm";
+
+const FieldTypeSettings: React.FC<FieldTypeSettingsProps> = ({ id, fieldType, fieldOptions, detectedType, onChange }) => {
+  // Keep the raw text while typing so commas are not swallowed
+  const [selectOptionsText, setSelectOptionsText] = useState((fieldOptions.selectOptions || []).join(', '));
+
+  useEffect(() => {
+    setSelectOptionsText((fieldOptions.selectOptions || []).join(', '));
+  }, [fieldOptions.selectOptions]);
+
+  const handleTypeChange = (value: string) => {
+    const type = value as BaserowFieldType;
+    onChange(type, getDefaultFieldOptions(type, fieldOptions));
+  };
+
+  const updateOptions = (changes: FieldOptions) => {
+    onChange(fieldType, { ...fieldOptions, ...changes });
+  };
+
+  const commitSelectOptions = () => {
+    const selectOptions = [...new Set(selectOptionsText.split(',').map(option => option.trim()).filter(Boolean))];
+    updateOptions({ selectOptions });
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-end gap-4">
+      <div className="space-y-1 md:w-56">
+        <Label htmlFor={`${id}-type`} className="text-xs font-medium text-gray-300">Feldtyp</Label>
+        <SimpleSelect
+          id={`${id}-type`}
+          value={fieldType}
+          onValueChange={handleTypeChange}
+          options={FIELD_TYPE_OPTIONS.map(option => ({
+            value: option.value,
+            label: option.value === detectedType ? `${option.label} – erkannt` : option.label,
+          }))}
+        />
+      </div>
+
+      {fieldType === 'number' && (
+        <div className="space-y-1 md:w-40">
+          <Label htmlFor={`${id}-decimals`} className="text-xs font-medium text-gray-300">Nachkommastellen</Label>
+          <Input
+            id={`${id}-decimals`}
+            type="number"
+            min={0}
+            max={10}
+            value={fieldOptions.numberDecimalPlaces ?? 0}
+            onChange={(e) => updateOptions({ numberDecimalPlaces: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })}
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      {fieldType === 'date' && (
+        <>
+          <div className="space-y-1 md:w-48">
+            <Label htmlFor={`${id}-date-format`} className="text-xs font-medium text-gray-300">Datumsformat</Label>
+            <SimpleSelect
+              id={`${id}-date-format`}
+              value={fieldOptions.dateFormat || 'EU'}
+              onValueChange={(value) => updateOptions({ dateFormat: value as DateFormat })}
+              options={DATE_FORMAT_OPTIONS}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300 h-9 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!fieldOptions.dateIncludeTime}
+              onChange={(e) => updateOptions({ dateIncludeTime: e.target.checked })}
+              className="h-4 w-4 accent-purple-500"
+            />
+            Mit Uhrzeit
+          </label>
+        </>
+      )}
+
+      {(fieldType === 'number' || fieldType === 'date') && (
+        <div className="space-y-1 md:w-72">
+          <Label htmlFor={`${id}-locale`} className="text-xs font-medium text-gray-300">Schreibweise in der Datei</Label>
+          <SimpleSelect
+            id={`${id}-locale`}
+            value={fieldOptions.locale || DEFAULT_VALUE_LOCALE}
+            onValueChange={(value) => updateOptions({ locale: value as ValueLocale })}
+            options={VALUE_LOCALE_OPTIONS}
+          />
+        </div>
+      )}
+
+      {(fieldType === 'single_select' || fieldType === 'multiple_select') && (
+        <div className="space-y-1 flex-1">
+          <Label htmlFor={`${id}-select-options`} className="text-xs font-medium text-gray-300">
+            Auswahloptionen (kommagetrennt, fehlende Werte aus der Datei werden ergänzt)
+          </Label>
+          <Input
+            id={`${id}-select-options`}
+            value={selectOptionsText}
+            onChange={(e) => setSelectOptionsText(e.target.value)}
+            onBlur={commitSelectOptions}
+            placeholder="z.B. Aktiv, Inaktiv"
+            className={inputClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldTypeSettings;
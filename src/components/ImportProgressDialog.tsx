@@ -4,7 +4,7 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { CheckCircle, Clock, Zap, AlertCircle, Database, TrendingUp } from 'lucide-react';
+import { CheckCircle, Clock, Zap, AlertCircle, AlertTriangle, Ban, Database, TrendingUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ProgressInfo {
@@ -17,6 +17,8 @@ interface ProgressInfo {
   currentBatch?: number;
   totalBatches?: number;
   failed?: number;
+  invalid?: number; // Rows left out because they broke an error rule
+  flagged?: number; // Rows imported with a warning
   processing?: 'bulk' | 'standard' | 'individual';
 }
 
@@ -160,17 +162,31 @@ const ImportProgressDialog: React.FC<ImportProgressDialogProps> = ({
 
           {/* Additional Info */}
           <div className="flex justify-between items-center text-sm">
-            {progress.failed !== undefined && progress.failed > 0 ? (
-              <div className="flex items-center gap-1 text-orange-400">
-                <AlertCircle className="h-4 w-4" />
-                <span>{progress.failed} Fehler</span>
-              </div>
-            ) : (
-              <div className="flex items-center gap-1 text-green-400">
-                <CheckCircle className="h-4 w-4" />
-                <span>Fehlerfrei</span>
-              </div>
-            )}
+            <div className="flex flex-wrap items-center gap-4">
+              {progress.failed !== undefined && progress.failed > 0 ? (
+                <div className="flex items-center gap-1 text-orange-400">
+                  <AlertCircle className="h-4 w-4" />
+                  <span>{progress.failed} Fehler</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1 text-green-400">
+                  <CheckCircle className="h-4 w-4" />
+                  <span>Fehlerfrei</span>
+                </div>
+              )}
+              {progress.invalid !== undefined && progress.invalid > 0 && (
+                <div className="flex items-center gap-1 text-red-400">
+                  <Ban className="h-4 w-4" />
+                  <span>{progress.invalid} durch Prüfregeln ausgelassen</span>
+                </div>
+              )}
+              {progress.flagged !== undefined && progress.flagged > 0 && (
+                <div className="flex items-center gap-1 text-amber-400">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>{progress.flagged} mit Warnung</span>
+                </div>
+              )}
+            </div>
             
             {isCompleted && (
               <Badge variant="default" className="bg-gradient-to-r from-green-600 to-emerald-600 text-white border-0 shadow-lg">
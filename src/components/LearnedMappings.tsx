@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Brain, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+import type { LearnedMapping } from '@/utils/learnedMappings';
+
+interface LearnedMappingsProps {
+  learned: LearnedMapping[];
+  onDelete: (sourceColumn: string, targetColumn: string) => void;
+  onClear: () => void;
+}
+
+const LearnedMappings: React.FC<LearnedMappingsProps> = ({ learned, onDelete, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const sorted = [...learned].sort((a, b) =>
+    a.sourceColumn.localeCompare(b.sourceColumn) || b.weight - a.weight
+  );
+
+  return (
+    <Card className="mb-8 bg-gradient-to-r from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-xl shadow-slate-900/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-white">
+          <div className="p-2 rounded-lg bg-gradient-to-r from-pink-600 to-purple-600">
+            <Brain className="h-5 w-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent flex-1">
+            Gelernte Zuordnungen
+          </span>
+          <Badge variant="outline" className="border-purple-400/50 bg-purple-500/20 text-purple-300">
+            {learned.length}
+          </Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-gray-300 hover:text-white hover:bg-slate-700/60"
+          >
+            {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      {isOpen && (
+        <CardContent className="pt-0 space-y-3">
+          <div className="text-xs text-gray-400">
+            Bestätigte Zuordnungen werden bei neuen Dateien bevorzugt vorgeschlagen. Je öfter eine Zuordnung bestätigt wurde, desto höher ihr Gewicht.
+          </div>
+          {sorted.length === 0 ? (
+            <div className="text-sm text-gray-400">Noch keine Zuordnungen gelernt.</div>
+          ) : (
+            <>
+              <div className="max-h-72 overflow-auto space-y-1">
+                {sorted.map(entry => (
+                  <div key={`${entry.sourceColumn}-${entry.targetColumn}`} className="flex items-center gap-2 text-sm">
+                    <span className="font-mono bg-slate-600 text-white px-2 py-1 rounded">{entry.sourceColumn}</span>
+                    <span className="text-slate-300">→</span>
+                    <span className="font-mono bg-slate-600 text-white px-2 py-1 rounded">{entry.targetColumn}</span>
+                    <span className="text-xs text-gray-400 flex-1">Gewicht {entry.weight}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDelete(entry.sourceColumn, entry.targetColumn)}
+                      className="text-gray-400 hover:text-red-200 hover:bg-red-900/40"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                onClick={onClear}
+                className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-red-900/40 hover:border-red-500/50 hover:text-red-200"
+              >
+                Alle löschen
+              </Button>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default LearnedMappings;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table2 } from 'lucide-react';
+import { FieldSpec, convertValue } from '@/utils/fieldTypes';
+
+export interface PreviewColumn {
+  target: string;
+  sources: string[]; // Source columns joined into the target column, empty for extra columns
+  spec?: FieldSpec; // Checked for values that do not fit; omitted for existing fields
+}
+
+interface MappingPreviewProps {
+  columns: PreviewColumn[];
+  rows: Record<string, string>[]; // Composed value of each target column, in row order
+}
+
+const MappingPreview: React.FC<MappingPreviewProps> = ({ columns, rows }) => {
+  const rowCount = rows.length;
+
+  return (
+    <Card className="mb-8 bg-gradient-to-r from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-xl shadow-slate-900/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-white">
+          <div className="p-2 rounded-lg bg-gradient-to-r from-blue-600 to-cyan-600">
+            <Table2 className="h-5 w-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            Vorschau der Zieltabelle
+          </span>
+          <span className="text-sm font-normal text-gray-400">erste {rowCount} Zeilen</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {columns.length === 0 || rowCount === 0 ? (
+          <div className="text-sm text-gray-400">Keine zugeordneten Spalten oder keine Beispieldaten vorhanden.</div>
+        ) : (
+          <div className="max-h-[28rem] overflow-auto rounded-lg border border-slate-700/50">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-slate-800">
+                <tr className="text-gray-400">
+                  <th className="text-left font-medium px-3 py-2">#</th>
+                  {columns.map(column => (
+                    <th key={column.target} className="text-left font-medium px-3 py-2 whitespace-nowrap">
+                      <div className="text-gray-200">{column.target}</div>
+                      {column.sources.length === 0 ? (
+                        <div className="font-normal text-gray-500">Zusatzspalte</div>
+                      ) : (column.sources.length > 1 || column.sources[0] !== column.target) && (
+                        <div className="font-normal text-gray-500">aus {column.sources.join(' + ')}</div>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t border-slate-700/50 text-gray-200">
+                    <td className="px-3 py-1.5 font-mono text-gray-500">{rowIndex + 1}</td>
+                    {columns.map(column => {
+                      const value = row[column.target] ?? '';
+                      const isInvalid = !!column.spec && value !== '' && !convertValue(value, column.spec).valid;
+                      return (
+                        <td
+                          key={column.target}
+                          title={isInvalid ? 'Wert passt nicht zum Feldtyp' : undefined}
+                          className={`px-3 py-1.5 whitespace-nowrap max-w-[16rem] truncate ${isInvalid ? 'text-red-300 bg-red-500/10' : ''}`}
+                        >
+                          {value}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MappingPreview;
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SimpleSelect } from '@/components/ui/simple-select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BookmarkCheck, Save, Trash2 } from 'lucide-react';
+import { MappingTemplate, TemplateMatch } from '@/utils/mappingTemplates';
+
+interface MappingTemplatesProps {
+  templates: MappingTemplate[];
+  suggestion: TemplateMatch | null;
+  appliedTemplateId: string | null;
+  onApply: (template: MappingTemplate) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const MappingTemplates: React.FC<MappingTemplatesProps> = ({ templates, suggestion, appliedTemplateId, onApply, onSave, onDelete }) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+
+  // Preselect the applied or suggested template; saving again then updates it
+  useEffect(() => {
+    const preferredId = appliedTemplateId || suggestion?.template.id;
+    if (preferredId) {
+      setSelectedId(preferredId);
+      setTemplateName(templates.find(template => template.id === preferredId)?.name || '');
+    }
+  }, [templates, suggestion, appliedTemplateId]);
+
+  const selectedTemplate = templates.find(template => template.id === selectedId);
+
+  return (
+    <Card className="mb-8 bg-gradient-to-r from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-xl shadow-slate-900/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-white">
+          <div className="p-2 rounded-lg bg-gradient-to-r from-cyan-600 to-blue-600">
+            <BookmarkCheck className="h-5 w-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            Zuordnungsvorlagen
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        {suggestion && suggestion.template.id !== appliedTemplateId && (
+          <div className="flex flex-col md:flex-row md:items-center gap-3 bg-cyan-500/10 border border-cyan-500/30 p-3 rounded-lg">
+            <div className="flex-1 text-sm text-cyan-100">
+              Die Vorlage „{suggestion.template.name}“ passt zu dieser Datei ({suggestion.score}% gleiche Spalten).
+            </div>
+            <Button
+              onClick={() => onApply(suggestion.template)}
+              className="bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-700 hover:to-blue-700 text-white border-0"
+            >
+              Vorlage anwenden
+            </Button>
+          </div>
+        )}
+
+        {templates.length > 0 && (
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <span className="text-sm text-gray-300 font-medium md:w-40">Gespeichert</span>
+            <div className="md:w-80">
+              <SimpleSelect
+                id="mapping-template-select"
+                value={selectedId}
+                onValueChange={setSelectedId}
+                placeholder="Vorlage wählen"
+                options={templates.map(template => ({
+                  value: template.id,
+                  label: template.id === appliedTemplateId ? `${template.name} – angewendet` : template.name,
+                }))}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => selectedTemplate && onApply(selectedTemplate)}
+              disabled={!selectedTemplate}
+              className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:border-slate-500 hover:text-white"
+            >
+              Anwenden
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => selectedTemplate && onDelete(selectedTemplate.id)}
+              disabled={!selectedTemplate}
+              className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-red-900/40 hover:border-red-500/50 hover:text-red-200"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <span className="text-sm text-gray-300 font-medium md:w-40">Aktuelle Zuordnung</span>
+          <div className="md:w-80">
+            <Input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Name, z.B. Lieferant A Wochenexport"
+              className="h-9 bg-slate-700/50 border-slate-600 text-white placeholder:text-gray-400 focus:border-purple-500 focus:ring-purple-500/30"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => onSave(templateName)}
+            disabled={!templateName.trim()}
+            className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:border-slate-500 hover:text-white"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Als Vorlage speichern
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MappingTemplates;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { SimpleSelect } from '@/components/ui/simple-select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowDown, ArrowUp, Merge } from 'lucide-react';
+import { MergeRule, MERGE_SEPARATOR_OPTIONS } from '@/utils/columnRules';
+
+interface MergeRulesProps {
+  rules: MergeRule[];
+  examples: Record<string, string>; // Composed value of each target column in the first sample row
+  onChange: (rule: MergeRule) => void;
+}
+
+const MergeRules: React.FC<MergeRulesProps> = ({ rules, examples, onChange }) => {
+  const moveSource = (rule: MergeRule, index: number, offset: number) => {
+    const sources = [...rule.sources];
+    const [source] = sources.splice(index, 1);
+    sources.splice(index + offset, 0, source);
+    onChange({ ...rule, sources });
+  };
+
+  return (
+    <Card className="mb-8 bg-gradient-to-r from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-xl shadow-slate-900/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-white">
+          <div className="p-2 rounded-lg bg-gradient-to-r from-emerald-600 to-cyan-600">
+            <Merge className="h-5 w-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            Zusammengeführte Spalten
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        {rules.map(rule => (
+          <div key={rule.target} className="rounded-lg border border-slate-600/50 bg-slate-800/50 p-4 space-y-3">
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
+              <span className="font-mono text-sm text-white md:w-48 truncate">{rule.target}</span>
+              <div className="flex flex-wrap items-center gap-2 flex-1">
+                {rule.sources.map((source, index) => (
+                  <div key={source} className="flex items-center gap-1 rounded border border-slate-600 bg-slate-700/60 px-2 py-1">
+                    <span className="font-mono text-xs text-gray-200">{source}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveSource(rule, index, -1)}
+                      disabled={index === 0}
+                      className="h-6 px-1 text-gray-400 hover:text-white hover:bg-slate-600/60"
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveSource(rule, index, 1)}
+                      disabled={index === rule.sources.length - 1}
+                      className="h-6 px-1 text-gray-400 hover:text-white hover:bg-slate-600/60"
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="md:w-48">
+                <SimpleSelect
+                  id={`merge-separator-${rule.target}`}
+                  value={rule.separator}
+                  onValueChange={(separator) => onChange({ ...rule, separator })}
+                  options={MERGE_SEPARATOR_OPTIONS}
+                />
+              </div>
+            </div>
+            {examples[rule.target] && (
+              <div className="text-xs text-gray-400">
+                Beispiel: <span className="font-mono text-gray-200 whitespace-pre-wrap">{examples[rule.target]}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MergeRules;
@@ -0,0 +1,169 @@
+import React from 'react';
+import { SimpleSelect } from '@/components/ui/simple-select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  SplitMode,
+  SplitRule,
+  SPLIT_MODE_OPTIONS,
+  getRegexGroupCount,
+  getSplitPartLabels,
+  splitValue,
+} from '@/utils/columnRules';
+
+interface SplitRuleSettingsProps {
+  id: string;
+  rule: SplitRule;
+  targetColumns: string[];
+  sampleValues: string[];
+  onChange: (rule: SplitRule) => void;
+}
+
+const inputClassName = "h-9 bg-slate-700/50 border-slate-600 text-white placeholder:text-gray-400 focus:border-purple-500 focus:ring-purple-500/30 backdrop-blur-sm";
+
+const DEFAULT_PATTERNS: Record<SplitMode, string> = {
+  name: '',
+  address: '',
+  delimiter: ' ',
+  regex: '(\\S+)\\s+(.*)',
+  email: '',
+};
+
+const PART_COUNT_OPTIONS = [2, 3, 4, 5, 6].map(count => ({ value: String(count), label: `${count} Teile` }));
+
+const MAX_PREVIEW_VALUES = 5;
+
+const SplitRuleSettings: React.FC<SplitRuleSettingsProps> = ({ id, rule, targetColumns, sampleValues, onChange }) => {
+  const labels = getSplitPartLabels(rule);
+  const isInvalidRegex = rule.mode === 'regex' && getRegexGroupCount(rule.pattern) === null;
+  const previewValues = [...new Set(sampleValues.map(value => (value ?? '').trim()).filter(Boolean))].slice(0, MAX_PREVIEW_VALUES);
+
+  const handleModeChange = (value: string) => {
+    const mode = value as SplitMode;
+    onChange({ ...rule, mode, pattern: DEFAULT_PATTERNS[mode], targets: mode === 'delimiter' || mode === 'email' ? ['', ''] : [] });
+  };
+
+  const handlePartCountChange = (value: string) => {
+    const count = Number(value);
+    onChange({ ...rule, targets: Array.from({ length: count }, (_, index) => rule.targets[index] || '') });
+  };
+
+  const handleTargetChange = (index: number, target: string) => {
+    onChange({ ...rule, targets: rule.targets.map((current, partIndex) => (partIndex === index ? target : current)) });
+  };
+
+  // Existing columns, plus the part label as new column unless a column of that name exists
+  const getTargetOptions = (label: string, current: string) => [
+    { value: '', label: '❌ Nicht importieren' },
+    ...(targetColumns.includes(label) ? [] : [{ value: label, label: `➕ Neue Spalte „${label}“` }]),
+    ...targetColumns.map(column => ({ value: column, label: `🎯 ${column}` })),
+    ...(current && current !== label && !targetColumns.includes(current) ? [{ value: current, label: `➕ Neue Spalte „${current}“` }] : []),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="space-y-1 md:w-80">
+          <Label htmlFor={`${id}-mode`} className="text-xs font-medium text-gray-300">Aufteilen nach</Label>
+          <SimpleSelect
+            id={`${id}-mode`}
+            value={rule.mode}
+            onValueChange={handleModeChange}
+            options={SPLIT_MODE_OPTIONS}
+          />
+        </div>
+
+        {(rule.mode === 'delimiter' || rule.mode === 'email') && (
+          <>
+            {rule.mode === 'delimiter' && (
+              <div className="space-y-1 md:w-32">
+                <Label htmlFor={`${id}-pattern`} className="text-xs font-medium text-gray-300">Trennzeichen</Label>
+                <Input
+                  id={`${id}-pattern`}
+                  value={rule.pattern}
+                  onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+                  placeholder="z.B. ;"
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+            )}
+            <div className="space-y-1 md:w-32">
+              <Label htmlFor={`${id}-parts`} className="text-xs font-medium text-gray-300">Anzahl</Label>
+              <SimpleSelect
+                id={`${id}-parts`}
+                value={String(rule.targets.length)}
+                onValueChange={handlePartCountChange}
+                options={PART_COUNT_OPTIONS}
+              />
+            </div>
+          </>
+        )}
+
+        {rule.mode === 'regex' && (
+          <div className="space-y-1 flex-1">
+            <Label htmlFor={`${id}-pattern`} className="text-xs font-medium text-gray-300">Regulärer Ausdruck (ein Teil je Gruppe)</Label>
+            <Input
+              id={`${id}-pattern`}
+              value={rule.pattern}
+              onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+              placeholder="z.B. (\d{5})\s+(.*)"
+              className={`${inputClassName} font-mono ${isInvalidRegex ? 'border-red-500' : ''}`}
+            />
+          </div>
+        )}
+      </div>
+
+      {isInvalidRegex && (
+        <div className="text-xs text-red-300">Der reguläre Ausdruck ist ungültig.</div>
+      )}
+      {rule.mode === 'regex' && !isInvalidRegex && labels.length === 0 && (
+        <div className="text-xs text-amber-300">Der Ausdruck enthält keine Gruppen in Klammern.</div>
+      )}
+
+      {labels.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {labels.map((label, index) => (
+            <div key={index} className="space-y-1">
+              <Label htmlFor={`${id}-target-${index}`} className="text-xs font-medium text-gray-300">{label}</Label>
+              <SimpleSelect
+                id={`${id}-target-${index}`}
+                value={rule.targets[index] || ''}
+                onValueChange={(value) => handleTargetChange(index, value)}
+                options={getTargetOptions(label, rule.targets[index] || '')}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {labels.length > 0 && previewValues.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-800">
+              <tr className="text-gray-400">
+                <th className="text-left font-medium px-3 py-2">{rule.source}</th>
+                {labels.map((label, index) => (
+                  <th key={index} className="text-left font-medium px-3 py-2 whitespace-nowrap">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewValues.map(value => (
+                <tr key={value} className="border-t border-slate-700/50 text-gray-200">
+                  <td className="px-3 py-1.5 font-mono text-gray-400 whitespace-nowrap">{value}</td>
+                  {splitValue(value, rule).map((part, index) => (
+                    <td key={index} className={`px-3 py-1.5 whitespace-nowrap ${rule.targets[index] ? '' : 'text-gray-500 line-through'}`}>
+                      {part}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SplitRuleSettings;
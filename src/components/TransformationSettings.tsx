@@ -0,0 +1,181 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { SimpleSelect } from '@/components/ui/simple-select';
+import { Input } from '@/components/ui/input';
+import { ArrowDown, ArrowUp, ArrowRight, X } from 'lucide-react';
+import {
+  TransformStep,
+  TransformType,
+  TRANSFORM_OPTIONS,
+  createTransformStep,
+  createTransformer,
+  getStepRegex,
+  getTransformLabel,
+} from '@/utils/transformations';
+import { PhoneFormat, PHONE_COUNTRY_OPTIONS, PHONE_FORMAT_OPTIONS, DEFAULT_PHONE_COUNTRY } from '@/utils/phoneNumbers';
+import { EmailMultiple, EMAIL_MULTIPLE_OPTIONS } from '@/utils/emailAddresses';
+
+interface TransformationSettingsProps {
+  id: string;
+  steps: TransformStep[];
+  sampleValues: string[];
+  onChange: (steps: TransformStep[]) => void;
+}
+
+const inputClassName = "h-8 bg-slate-700/50 border-slate-600 text-white placeholder:text-gray-400 focus:border-purple-500 focus:ring-purple-500/30 backdrop-blur-sm";
+
+const MAX_PREVIEW_VALUES = 5;
+
+const TransformationSettings: React.FC<TransformationSettingsProps> = ({ id, steps, sampleValues, onChange }) => {
+  const transform = createTransformer(steps);
+  const previewValues = [...new Set(sampleValues.map(value => value ?? ''))].slice(0, MAX_PREVIEW_VALUES);
+
+  const updateStep = (index: number, changes: Partial<TransformStep>) => {
+    onChange(steps.map((step, stepIndex) => (stepIndex === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const updated = [...steps];
+    const [step] = updated.splice(index, 1);
+    updated.splice(index + offset, 0, step);
+    onChange(updated);
+  };
+
+  const renderStepFields = (step: TransformStep, index: number) => {
+    switch (step.type) {
+      case 'replace':
+      case 'regex_replace':
+        return (
+          <>
+            <Input
+              value={step.find || ''}
+              onChange={(e) => updateStep(index, { find: e.target.value })}
+              placeholder={step.type === 'replace' ? 'Suchen' : 'Ausdruck, z.B. \\.(?=\\d{3})'}
+              className={`${inputClassName} font-mono ${step.type === 'regex_replace' && !getStepRegex(step) ? 'border-red-500' : ''}`}
+            />
+            <Input
+              value={step.replacement || ''}
+              onChange={(e) => updateStep(index, { replacement: e.target.value })}
+              placeholder="Ersetzen durch"
+              className={`${inputClassName} font-mono`}
+            />
+          </>
+        );
+      case 'default':
+      case 'prefix':
+      case 'suffix':
+        return (
+          <Input
+            value={step.value || ''}
+            onChange={(e) => updateStep(index, { value: e.target.value })}
+            placeholder={step.type === 'default' ? 'Standardwert' : 'Text'}
+            className={inputClassName}
+          />
+        );
+      case 'null_tokens':
+        return (
+          <Input
+            // Committed on blur so commas are not swallowed while typing
+            key={`${id}-tokens-${index}-${(step.tokens || []).join(',')}`}
+            defaultValue={(step.tokens || []).join(', ')}
+            onBlur={(e) => updateStep(index, { tokens: [...new Set(e.target.value.split(',').map(token => token.trim()).filter(Boolean))] })}
+            placeholder="n/a, -, null"
+            className={inputClassName}
+          />
+        );
+      case 'phone':
+        return (
+          <>
+            <SimpleSelect
+              id={`${id}-country-${index}`}
+              value={step.country || DEFAULT_PHONE_COUNTRY}
+              onValueChange={(country) => updateStep(index, { country })}
+              options={PHONE_COUNTRY_OPTIONS}
+            />
+            <SimpleSelect
+              id={`${id}-format-${index}`}
+              value={step.format || 'e164'}
+              onValueChange={(format) => updateStep(index, { format: format as PhoneFormat })}
+              options={PHONE_FORMAT_OPTIONS}
+            />
+          </>
+        );
+      case 'email':
+        return (
+          <SimpleSelect
+            id={`${id}-multiple-${index}`}
+            value={step.multiple || 'first'}
+            onValueChange={(multiple) => updateStep(index, { multiple: multiple as EmailMultiple })}
+            options={EMAIL_MULTIPLE_OPTIONS}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.map((step, index) => (
+        <div key={index} className="flex flex-col md:flex-row md:items-center gap-2">
+          <span className="text-xs text-gray-300 md:w-56 flex-shrink-0">
+            {index + 1}. {getTransformLabel(step.type)}
+          </span>
+          <div className="flex flex-1 gap-2">{renderStepFields(step, index)}</div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => moveStep(index, -1)}
+              disabled={index === 0}
+              className="h-8 px-2 text-gray-400 hover:text-white hover:bg-slate-600/60"
+            >
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => moveStep(index, 1)}
+              disabled={index === steps.length - 1}
+              className="h-8 px-2 text-gray-400 hover:text-white hover:bg-slate-600/60"
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(steps.filter((_, stepIndex) => stepIndex !== index))}
+              className="h-8 px-2 text-gray-400 hover:text-red-300 hover:bg-slate-600/60"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="md:w-72">
+        <SimpleSelect
+          id={`${id}-add`}
+          value=""
+          onValueChange={(value) => onChange([...steps, createTransformStep(value as TransformType)])}
+          placeholder="➕ Transformation hinzufügen"
+          options={TRANSFORM_OPTIONS}
+        />
+      </div>
+
+      {steps.length > 0 && previewValues.length > 0 && (
+        <div className="rounded-lg border border-slate-700/50 divide-y divide-slate-700/50">
+          {previewValues.map((value, index) => (
+            <div key={index} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+              <span className="font-mono text-gray-400 flex-1 truncate whitespace-pre">{value === '' ? '(leer)' : value}</span>
+              <ArrowRight className="h-3 w-3 text-gray-500 flex-shrink-0" />
+              <span className="font-mono text-gray-100 flex-1 truncate whitespace-pre">{transform(value).trim() || '(leer)'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransformationSettings;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Ban, Download } from 'lucide-react';
+import { formatValidationIssues, ValidationFinding, ValidationSeverity } from '@/utils/validation';
+
+interface ValidationReportProps {
+  headers: string[];
+  findings: ValidationFinding[];
+  severity: ValidationSeverity; // 'error' lists the rows left out, 'warning' the flagged ones
+  onDownload: () => void;
+}
+
+// Only the first rows are listed; the download contains all of them
+const MAX_VISIBLE_ROWS = 50;
+
+const ValidationReport: React.FC<ValidationReportProps> = ({ headers, findings, severity, onDownload }) => {
+  const isError = severity === 'error';
+  const Icon = isError ? Ban : AlertTriangle;
+
+  return (
+    <div className={`text-left p-4 rounded-lg mb-6 border ${isError ? 'bg-red-500/10 border-red-500/30' : 'bg-amber-500/10 border-amber-500/30'}`}>
+      <div className="flex flex-col md:flex-row md:items-center gap-3 mb-3">
+        <h3 className={`font-semibold flex items-center gap-2 flex-1 ${isError ? 'text-red-300' : 'text-amber-300'}`}>
+          <Icon className="h-4 w-4" />
+          {isError
+            ? `${findings.length} Zeile(n) wegen Prüfregeln ausgelassen`
+            : `${findings.length} Zeile(n) mit Warnung importiert`}
+        </h3>
+        <Button
+          variant="outline"
+          onClick={onDownload}
+          className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:text-white"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Prüfbericht (CSV)
+        </Button>
+      </div>
+
+      <div className="max-h-80 overflow-auto rounded border border-slate-700/50">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-slate-800">
+            <tr className="text-gray-400">
+              <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Zeile</th>
+              <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Prüfung</th>
+              {headers.map((header, index) => (
+                <th key={index} className="text-left font-medium px-3 py-2 whitespace-nowrap">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {findings.slice(0, MAX_VISIBLE_ROWS).map((finding, rowIndex) => (
+              <tr key={`${finding.lineNumber}-${rowIndex}`} className="border-t border-slate-700/50 text-gray-200 align-top">
+                <td className="px-3 py-1.5 font-mono text-gray-400">{finding.lineNumber}</td>
+                <td className={`px-3 py-1.5 min-w-[16rem] ${isError ? 'text-red-300' : 'text-amber-300'}`}>
+                  {formatValidationIssues(finding.issues)}
+                </td>
+                {headers.map((_, index) => (
+                  <td key={index} className="px-3 py-1.5 whitespace-nowrap max-w-[16rem] truncate">
+                    {finding.values[index] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {findings.length > MAX_VISIBLE_ROWS && (
+        <div className="text-xs text-gray-400 mt-2">
+          … und {findings.length - MAX_VISIBLE_ROWS} weitere Zeilen im Prüfbericht.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReport;
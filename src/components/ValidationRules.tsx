@@ -0,0 +1,172 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { SimpleSelect } from '@/components/ui/simple-select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Plus, ShieldCheck, X } from 'lucide-react';
+import {
+  ValidationRule,
+  ValidationRuleType,
+  ValidationSeverity,
+  VALIDATION_RULE_OPTIONS,
+  SEVERITY_OPTIONS,
+  createRowValidator,
+  createValidationRule,
+  getRulePattern,
+} from '@/utils/validation';
+
+interface ValidationRulesProps {
+  rules: ValidationRule[];
+  columns: string[]; // Target columns of the import
+  sampleRows: Array<Record<string, string>>; // Composed sample rows the rules are tried on
+  onChange: (rules: ValidationRule[]) => void;
+}
+
+const inputClassName = "h-9 bg-slate-700/50 border-slate-600 text-white placeholder:text-gray-400 focus:border-purple-500 focus:ring-purple-500/30 backdrop-blur-sm";
+
+const ValidationRules: React.FC<ValidationRulesProps> = ({ rules, columns, sampleRows, onChange }) => {
+  const updateRule = (index: number, changes: Partial<ValidationRule>) => {
+    onChange(rules.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleTypeChange = (index: number, value: string) => {
+    onChange(rules.map((rule, ruleIndex) => (ruleIndex === index ? createValidationRule(rule.column, value as ValidationRuleType) : rule)));
+  };
+
+  // Sample rows that break the rule, so its effect is visible before the import
+  const countViolations = (rule: ValidationRule) => {
+    const validateRow = createRowValidator([rule]);
+    return sampleRows.filter(row => validateRow(row).length > 0).length;
+  };
+
+  const renderParameterField = (rule: ValidationRule, index: number) => {
+    switch (rule.type) {
+      case 'regex':
+        return (
+          <Input
+            id={`validation-rule-${index}-pattern`}
+            value={rule.pattern || ''}
+            onChange={(e) => updateRule(index, { pattern: e.target.value })}
+            placeholder="z.B. ^DE\d{20}$"
+            className={`${inputClassName} font-mono ${rule.pattern && !getRulePattern(rule) ? 'border-red-500' : ''}`}
+          />
+        );
+      case 'min_length':
+      case 'max_length':
+        return (
+          <Input
+            id={`validation-rule-${index}-length`}
+            type="number"
+            min={0}
+            value={rule.length ?? ''}
+            onChange={(e) => updateRule(index, { length: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClassName}
+          />
+        );
+      case 'allowed_values':
+        return (
+          <Input
+            id={`validation-rule-${index}-values`}
+            // Committed on blur so commas are not swallowed while typing
+            key={`validation-rule-${index}-values-${(rule.allowedValues || []).join(',')}`}
+            defaultValue={(rule.allowedValues || []).join(', ')}
+            onBlur={(e) => updateRule(index, { allowedValues: [...new Set(e.target.value.split(',').map(item => item.trim()).filter(Boolean))] })}
+            placeholder="z.B. Kunde, Lieferant, Partner"
+            className={inputClassName}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card className="mb-8 bg-gradient-to-r from-slate-800/80 to-slate-900/80 border-slate-700/50 backdrop-blur-sm shadow-xl shadow-slate-900/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3 text-white">
+          <div className="p-2 rounded-lg bg-gradient-to-r from-emerald-600 to-teal-600">
+            <ShieldCheck className="h-5 w-5 text-white" />
+          </div>
+          <span className="bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            Prüfregeln
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <p className="text-sm text-gray-400">
+          Regeln werden vor dem Senden auf jede Zeile angewendet. Zeilen, die gegen eine Fehler-Regel verstoßen, werden ausgelassen;
+          Warnungen werden importiert und im Prüfbericht markiert.
+        </p>
+
+        {rules.map((rule, index) => {
+          const violations = countViolations(rule);
+          return (
+            <div key={index} className="rounded-lg border border-slate-600/50 bg-slate-800/50 p-4 space-y-2">
+              <div className="flex flex-col md:flex-row md:items-end gap-3">
+                <div className="space-y-1 md:w-48">
+                  <Label htmlFor={`validation-rule-${index}-column`} className="text-xs font-medium text-gray-300">Spalte</Label>
+                  <SimpleSelect
+                    id={`validation-rule-${index}-column`}
+                    value={rule.column}
+                    onValueChange={(column) => updateRule(index, { column })}
+                    placeholder="Spalte wählen"
+                    options={columns.map(column => ({ value: column, label: column }))}
+                  />
+                </div>
+                <div className="space-y-1 md:w-56">
+                  <Label htmlFor={`validation-rule-${index}-type`} className="text-xs font-medium text-gray-300">Regel</Label>
+                  <SimpleSelect
+                    id={`validation-rule-${index}-type`}
+                    value={rule.type}
+                    onValueChange={(value) => handleTypeChange(index, value)}
+                    options={VALIDATION_RULE_OPTIONS}
+                  />
+                </div>
+                <div className="space-y-1 flex-1">{renderParameterField(rule, index)}</div>
+                <div className="space-y-1 md:w-72">
+                  <Label htmlFor={`validation-rule-${index}-severity`} className="text-xs font-medium text-gray-300">Bei Verstoß</Label>
+                  <SimpleSelect
+                    id={`validation-rule-${index}-severity`}
+                    value={rule.severity}
+                    onValueChange={(value) => updateRule(index, { severity: value as ValidationSeverity })}
+                    options={SEVERITY_OPTIONS}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(rules.filter((_, ruleIndex) => ruleIndex !== index))}
+                  className="h-9 px-2 text-gray-400 hover:text-red-300 hover:bg-slate-600/60"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {rule.column && !columns.includes(rule.column) && (
+                <div className="text-xs text-amber-300">Die Spalte „{rule.column}“ wird nicht importiert, die Regel wird übersprungen.</div>
+              )}
+              {violations > 0 && (
+                <div className={`text-xs ${rule.severity === 'error' ? 'text-red-300' : 'text-amber-300'}`}>
+                  {violations} von {sampleRows.length} Beispielzeilen verstoßen gegen die Regel.
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rules, createValidationRule(columns[0] || '', 'required')])}
+          disabled={columns.length === 0}
+          className="bg-slate-800/80 border-slate-600 text-gray-300 hover:bg-slate-700/80 hover:text-white"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Prüfregel hinzufügen
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ValidationRules;
@@ -6,7 +6,15 @@ import ColumnMapping from '@/components/ColumnMapping';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, CheckCircle, FileSpreadsheet, ExternalLink } from 'lucide-react';
-import { processImportData } from '@/utils/baserowApi';
+import FailedRowsReport from '@/components/FailedRowsReport';
+import ValidationReport from '@/components/ValidationReport';
+import EmailReport from '@/components/EmailReport';
+import DryRunReview from '@/components/DryRunReview';
+import { processImportData, retryFailedRecords, ImportOptions } from '@/utils/baserowApi';
+import type { DryRunReport } from '@/utils/dryRun';
+import { buildFailedRowsCsv, buildValidationCsv, downloadTextFile } from '@/utils/errorReport';
+import type { ValidationSeverity } from '@/utils/validation';
+import { recordMappingDecisions } from '@/utils/learnedMappings';
 
 interface ProgressInfo {
   current: number;
@@ -18,6 +26,8 @@ interface ProgressInfo {
   currentBatch?: number;
   totalBatches?: number;
   failed?: number;
+  invalid?: number;
+  flagged?: number;
   processing?: 'bulk' | 'standard' | 'individual';
 }
 
@@ -33,11 +43,23 @@ interface UploadedFileInfo {
   fileName: string;
 }
 
+// Import that waits for confirmation on the dry-run review screen
+interface PendingImport {
+  mappings: Record<string, string>;
+  progressCallback?: (progress: ProgressInfo) => void;
+  options: ImportOptions;
+  report: DryRunReport;
+  confirmedMappings?: Record<string, string>;
+}
+
 const ColumnMappingPage = () => {
   const [uploadedFileInfo, setUploadedFileInfo] = useState<UploadedFileInfo | null>(null);
   const [originalFile, setOriginalFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [importResults, setImportResults] = useState<any>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -83,23 +105,73 @@ const ColumnMappingPage = () => {
     }
   };
 
-  const handleMappingComplete = async (mappings: Record<string, string>, progressCallback?: (progress: ProgressInfo) => void) => {
+  const handleMappingComplete = async (mappings: Record<string, string>, progressCallback?: (progress: ProgressInfo) => void, options: ImportOptions = {}, confirmedMappings?: Record<string, string>) => {
+    // A resumed import was already reviewed when it was started
+    if (options.resumeJobId) {
+      await runImport(mappings, progressCallback, options, confirmedMappings);
+      return;
+    }
+
+    try {
+      // Check the whole file without writing to Baserow and show the report first
+      const preview = await processImportData(mappings, undefined, { ...options, dryRun: true });
+      if (preview.dryRunReport) {
+        setPendingImport({ mappings, progressCallback, options, report: preview.dryRunReport, confirmedMappings });
+      }
+    } catch (error) {
+      toast({
+        title: "Prüfung fehlgeschlagen",
+        description: error instanceof Error ? error.message : "Die Datei konnte nicht geprüft werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+    try {
+      await runImport(pendingImport.mappings, pendingImport.progressCallback, pendingImport.options, pendingImport.confirmedMappings);
+    } finally {
+      setIsImporting(false);
+      setPendingImport(null);
+    }
+  };
+
+  const runImport = async (mappings: Record<string, string>, progressCallback?: (progress: ProgressInfo) => void, options?: ImportOptions, confirmedMappings?: Record<string, string>) => {
     try {
-      // Process the actual file data with mappings and create new table
-      const results = await processImportData(mappings, progressCallback);
+      // Process the actual file data with mappings into a new or an existing table
+      const results = await processImportData(mappings, progressCallback, options);
+
+      // Only a finished import confirms the mapping for the next files
+      if (confirmedMappings) {
+        recordMappingDecisions(confirmedMappings);
+      }
       
       setImportResults({
         total: results.total,
         updated: results.updated,
         created: results.created,
+        unchanged: results.unchanged,
         tableId: results.tableId,
         tableName: results.tableName,
+        mode: results.mode,
         mappings,
+        failedRecords: results.failedRecords,
+        invalidRecords: results.invalidRecords,
+        flaggedRecords: results.flaggedRecords,
+        emailFindings: results.emailFindings,
+        headers: results.headers,
+        delimiter: results.delimiter,
       });
       
       toast({
         title: "Import erfolgreich",
-        description: `Neue Tabelle "${results.tableName}" erstellt mit ${results.total} Datensätzen.`,
+        description: results.mode === 'upsert'
+          ? `Tabelle "${results.tableName}": ${results.created} neu, ${results.updated} aktualisiert, ${results.unchanged} unverändert.`
+          : results.mode === 'append'
+          ? `${results.created} Datensätze an Tabelle "${results.tableName}" angehängt.`
+          : `Neue Tabelle "${results.tableName}" erstellt mit ${results.total} Datensätzen.`,
       });
 
     } catch (error) {
@@ -116,6 +188,46 @@ const ColumnMappingPage = () => {
     }
   };
 
+  const handleDownloadErrorReport = () => {
+    const csv = buildFailedRowsCsv(importResults.headers, importResults.failedRecords, importResults.delimiter);
+    const baseName = (uploadedFileInfo?.fileName || 'import').replace(/\.[^/.]+$/, '');
+    downloadTextFile(`${baseName}_fehler.csv`, csv);
+  };
+
+  const handleDownloadValidationReport = (severity: ValidationSeverity) => {
+    const findings = severity === 'error' ? importResults.invalidRecords : importResults.flaggedRecords;
+    const csv = buildValidationCsv(importResults.headers, findings, importResults.delimiter);
+    const baseName = (uploadedFileInfo?.fileName || 'import').replace(/\.[^/.]+$/, '');
+    downloadTextFile(`${baseName}_${severity === 'error' ? 'ausgelassen' : 'warnungen'}.csv`, csv);
+  };
+
+  const handleRetryFailedRows = async () => {
+    setIsRetrying(true);
+    try {
+      const retry = await retryFailedRecords(importResults.tableId, importResults.failedRecords);
+      setImportResults({
+        ...importResults,
+        created: importResults.created + retry.created,
+        updated: importResults.updated + retry.updated,
+        failedRecords: retry.failedRecords,
+      });
+      
+      toast({
+        title: retry.failedRecords.length === 0 ? "Alle Zeilen importiert" : "Erneuter Versuch abgeschlossen",
+        description: `${retry.created + retry.updated} Zeile(n) übernommen, ${retry.failedRecords.length} weiterhin fehlerhaft.`,
+        variant: retry.failedRecords.length === 0 ? undefined : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: error instanceof Error ? error.message : "Die fehlgeschlagenen Zeilen konnten nicht erneut gesendet werden.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
   const handleBack = () => {
     navigate('/');
   };
@@ -162,7 +274,13 @@ const ColumnMappingPage = () => {
         <Card className="w-full max-w-2xl bg-slate-800/80 border-slate-700/50 backdrop-blur-sm">
           <CardContent className="p-8 text-center">
             <CheckCircle className="h-16 w-16 text-green-400 mx-auto mb-6" />
-            <h2 className="text-2xl font-bold text-white mb-4">Neue Tabelle erfolgreich erstellt!</h2>
+            <h2 className="text-2xl font-bold text-white mb-4">
+              {importResults.mode === 'upsert'
+                ? 'Tabelle erfolgreich aktualisiert!'
+                : importResults.mode === 'append'
+                ? 'Daten erfolgreich angehängt!'
+                : 'Neue Tabelle erfolgreich erstellt!'}
+            </h2>
             
             <div className="bg-slate-700/50 p-4 rounded-lg mb-6">
               <h3 className="font-semibold text-purple-300 mb-2">Tabelle Details:</h3>
@@ -170,6 +288,23 @@ const ColumnMappingPage = () => {
               <p className="text-slate-300 text-sm">Tabelle-ID: {importResults.tableId}</p>
             </div>
             
+            {importResults.mode === 'upsert' && (
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                <div className="bg-cyan-500/20 border border-cyan-500/30 p-4 rounded-lg">
+                  <div className="text-2xl font-bold text-cyan-400">{importResults.created}</div>
+                  <div className="text-sm text-slate-300">Neu angelegt</div>
+                </div>
+                <div className="bg-blue-500/20 border border-blue-500/30 p-4 rounded-lg">
+                  <div className="text-2xl font-bold text-blue-400">{importResults.updated}</div>
+                  <div className="text-sm text-slate-300">Aktualisiert</div>
+                </div>
+                <div className="bg-slate-500/20 border border-slate-500/30 p-4 rounded-lg">
+                  <div className="text-2xl font-bold text-slate-300">{importResults.unchanged}</div>
+                  <div className="text-sm text-slate-300">Unverändert</div>
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4 mb-8">
               <div className="bg-green-500/20 border border-green-500/30 p-4 rounded-lg">
                 <div className="text-2xl font-bold text-green-400">{importResults.total}</div>
@@ -181,6 +316,51 @@ const ColumnMappingPage = () => {
               </div>
             </div>
 
+            {(importResults.invalidRecords?.length > 0 || importResults.flaggedRecords?.length > 0) && (
+              <div className="grid grid-cols-2 gap-4 mb-8">
+                <div className="bg-red-500/20 border border-red-500/30 p-4 rounded-lg">
+                  <div className="text-2xl font-bold text-red-400">{importResults.invalidRecords.length}</div>
+                  <div className="text-sm text-slate-300">Durch Prüfregeln ausgelassen</div>
+                </div>
+                <div className="bg-amber-500/20 border border-amber-500/30 p-4 rounded-lg">
+                  <div className="text-2xl font-bold text-amber-400">{importResults.flaggedRecords.length}</div>
+                  <div className="text-sm text-slate-300">Mit Warnung importiert</div>
+                </div>
+              </div>
+            )}
+
+            {importResults.invalidRecords?.length > 0 && (
+              <ValidationReport
+                headers={importResults.headers}
+                findings={importResults.invalidRecords}
+                severity="error"
+                onDownload={() => handleDownloadValidationReport('error')}
+              />
+            )}
+
+            {importResults.flaggedRecords?.length > 0 && (
+              <ValidationReport
+                headers={importResults.headers}
+                findings={importResults.flaggedRecords}
+                severity="warning"
+                onDownload={() => handleDownloadValidationReport('warning')}
+              />
+            )}
+
+            {importResults.emailFindings?.length > 0 && (
+              <EmailReport findings={importResults.emailFindings} />
+            )}
+
+            {importResults.failedRecords?.length > 0 && (
+              <FailedRowsReport
+                headers={importResults.headers}
+                failedRecords={importResults.failedRecords}
+                isRetrying={isRetrying}
+                onDownload={handleDownloadErrorReport}
+                onRetry={handleRetryFailedRows}
+              />
+            )}
+
             <div className="text-left bg-slate-700/50 p-4 rounded-lg mb-6">
               <h3 className="font-semibold text-white mb-2">Verwendete Spalten-Zuordnungen:</h3>
               <div className="space-y-1">
@@ -208,12 +388,27 @@ const ColumnMappingPage = () => {
     );
   }
 
+  // The mapping stays mounted behind the review screen so going back keeps all choices
   return (
-    <ColumnMapping
-      uploadedFile={originalFile}
-      onMappingComplete={handleMappingComplete}
-      onBack={handleBack}
-    />
+    <>
+      {pendingImport && (
+        <DryRunReview
+          report={pendingImport.report}
+          mode={pendingImport.options.mode || 'create'}
+          isImporting={isImporting}
+          onBack={() => setPendingImport(null)}
+          onConfirm={handleConfirmImport}
+        />
+      )}
+      <div className={pendingImport ? 'hidden' : undefined}>
+        <ColumnMapping
+          uploadedFile={originalFile}
+          userData={uploadedFileInfo?.userData}
+          onMappingComplete={handleMappingComplete}
+          onBack={handleBack}
+        />
+      </div>
+    </>
   );
 };
 
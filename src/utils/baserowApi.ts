@@ -1,5 +1,14 @@
-import { fileStorage, isIndexedDBAvailable } from './fileStorage';
+import { fileStorage, isIndexedDBAvailable, ImportJob } from './fileStorage';
 import { API_CONFIG, getApiConfig } from './apiConfig';
+import { parseCSV, parseCSVHeader, isEmptyRecord, detectDelimiter, CsvRecord, CsvDelimiter } from './csvParser';
+import { detectEncoding, decodeBytes, bytesToBase64, base64ToBytes, ENCODING_SAMPLE_SIZE, FileEncoding, EncodingDetection } from './encoding';
+import { profileColumn, toFieldPayload, convertValue, completeSelectOptions, fromBaserowField, isWritableFieldType, BaserowField, FieldSpec } from './fieldTypes';
+import { findDuplicateGroups, resolveDuplicates, DuplicateGroup, DuplicateStrategy } from './duplicates';
+import { buildDryRunReport, DryRunReport } from './dryRun';
+import { ColumnRules, createTargetComposer, getMappedTargetColumns, getTargetSources } from './columnRules';
+import { resolveExtraColumns } from './extraColumns';
+import { createRowValidator, hasValidationErrors, ValidationFinding, ValidationRule } from './validation';
+import { checkEmailCell, EmailFinding } from './emailAddresses';
 import * as XLSX from 'xlsx';
 
 interface UploadData {
@@ -196,6 +205,19 @@ const excelFileToCsvText = async (file: File): Promise<string> => {
   return XLSX.utils.sheet_to_csv(ws);
 };
 
+// --- Encoding helpers ---
+// Read the beginning of a file and detect its character encoding
+const detectFileEncoding = async (file: File): Promise<{ detection: EncodingDetection; sample: Uint8Array }> => {
+  const sample = new Uint8Array(await file.slice(0, ENCODING_SAMPLE_SIZE).arrayBuffer());
+  return { detection: detectEncoding(sample), sample };
+};
+
+// Decode a downloaded file with the stored encoding, detecting it if unknown
+const decodeFileBuffer = (buffer: ArrayBuffer, encoding?: FileEncoding): string => {
+  const bytes = new Uint8Array(buffer);
+  return decodeBytes(bytes, encoding || detectEncoding(bytes.subarray(0, ENCODING_SAMPLE_SIZE)).encoding);
+};
+
 // JWT Token caching to avoid re-authentication during long imports
 let CACHED_JWT_TOKEN: string | null = null;
 let JWT_TOKEN_EXPIRES_AT: number = 0;
@@ -320,7 +342,7 @@ export const recoverFullFileContentIfNeeded = async (
       const ws = wb.Sheets[wb.SheetNames[0]];
       fullContent = XLSX.utils.sheet_to_csv(ws);
     } else {
-      fullContent = await response.text();
+      fullContent = decodeFileBuffer(await response.arrayBuffer(), fileInfo.encoding);
     }
     const fullLines = fullContent.split(/\r?\n/).filter(line => line.trim());
     
@@ -354,7 +376,7 @@ export const recoverFullFileContentIfNeeded = async (
               const ws = wb.Sheets[wb.SheetNames[0]];
               return XLSX.utils.sheet_to_csv(ws);
             }
-            return await freshResponse.text();
+            return decodeFileBuffer(await freshResponse.arrayBuffer(), fileInfo.encoding);
           }
         }
       }
@@ -549,10 +571,21 @@ export const uploadToBaserow = async (data: UploadData): Promise<void> => {
 
       const fileUploadResult = await fileUploadResponse.json();
       
+      // Detect the character encoding (Excel files are converted by the XLSX library)
+      let encodingInfo: { encoding?: FileEncoding; detectedEncoding?: FileEncoding; encodingSample?: string } = {};
+      if (!isExcelMimeOrName(data.file)) {
+        const { detection, sample } = await detectFileEncoding(data.file);
+        encodingInfo = {
+          encoding: detection.encoding,
+          detectedEncoding: detection.encoding,
+          encodingSample: bytesToBase64(sample), // Raw bytes for re-decoding the header preview
+        };
+      }
+
       // Process file in chunks for large files with error handling
       let fileContent = '';
       try {
-        fileContent = await processFileForStorage(data.file); // Use storage-optimized processing
+        fileContent = await processFileForStorage(data.file, encodingInfo.encoding); // Use storage-optimized processing
       } catch (processingError) {
         throw new Error('Fehler beim Verarbeiten der Datei. Die Datei ist möglicherweise zu groß oder beschädigt.');
       }
@@ -594,7 +627,8 @@ export const uploadToBaserow = async (data: UploadData): Promise<void> => {
         recordId: rowResult.id,
         isLargeFile: isLargeFile,
         originalFileSize: data.file.size,
-        fullFileContent: isLargeFile ? null : fileContent // Store full content only for smaller files
+        fullFileContent: isLargeFile ? null : fileContent, // Store full content only for smaller files
+        ...encodingInfo
       };
 
       try {
@@ -607,7 +641,8 @@ export const uploadToBaserow = async (data: UploadData): Promise<void> => {
           recordId: rowResult.id,
           isLargeFile: isLargeFile,
           originalFileSize: data.file.size,
-          fullFileContent: fileContent // Store full content as backup
+          fullFileContent: fileContent, // Store full content as backup
+          ...encodingInfo
         };
 
         const fileInfoString = JSON.stringify(fileInfo);
@@ -642,7 +677,8 @@ export const uploadToBaserow = async (data: UploadData): Promise<void> => {
             isLargeFile: isLargeFile,
             originalFileSize: data.file.size,
             isOptimized: lines.length > 2000, // Flag to indicate content was compressed
-            totalLines: lines.length
+            totalLines: lines.length,
+            ...encodingInfo
           };
 
           try {
@@ -694,7 +730,8 @@ export const uploadToBaserow = async (data: UploadData): Promise<void> => {
               isHeaderOnly: true, // Flag to indicate only headers available
               totalLines: lines.length,
               canImportFromOriginal: true, // 🆕 Flag to indicate we can reprocess from original data
-              storageWarning: `Große Datei (${(data.file.size / 1024 / 1024).toFixed(1)}MB) - Spalten-Mapping verfügbar, Import verarbeitet komplette Datei neu.`
+              storageWarning: `Große Datei (${(data.file.size / 1024 / 1024).toFixed(1)}MB) - Spalten-Mapping verfügbar, Import verarbeitet komplette Datei neu.`,
+              ...encodingInfo
             };
             
             try {
@@ -746,7 +783,8 @@ export const uploadToBaserow = async (data: UploadData): Promise<void> => {
                 originalFileSize: data.file.size,
                 needsReprocessing: true,
                 requiresFileReupload: true, // Flag indicating file must be re-uploaded
-                storageWarning: `Datei zu groß für Browser-Speicher (${(data.file.size / 1024 / 1024).toFixed(1)}MB). Bitte teilen Sie die Datei auf oder verwenden Sie eine kleinere Datei.`
+                storageWarning: `Datei zu groß für Browser-Speicher (${(data.file.size / 1024 / 1024).toFixed(1)}MB). Bitte teilen Sie die Datei auf oder verwenden Sie eine kleinere Datei.`,
+                ...encodingInfo
               };
               
               try {
@@ -789,9 +827,11 @@ export const uploadToBaserow = async (data: UploadData): Promise<void> => {
 };
 
 // Process file in chunks to handle very large files efficiently
-const processFileInChunks = async (file: File, forUploadProcessing: boolean = false): Promise<string> => {
+const processFileInChunks = async (file: File, forUploadProcessing: boolean = false, encoding: FileEncoding = 'utf-8'): Promise<string> => {
   const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB chunks for better performance with large files
   let content = '';
+  // One streaming decoder for all chunks so multi-byte characters split across chunk borders survive
+  const decoder = new TextDecoder(encoding);
   let processedSize = 0;
   const maxFileSize = 500 * 1024 * 1024; // Increased to 500MB limit for very large files
   
@@ -804,14 +844,14 @@ const processFileInChunks = async (file: File, forUploadProcessing: boolean = fa
     if (!forUploadProcessing && file.size > 100 * 1024 * 1024) { // 100MB threshold for limited processing
       // Read only the first 10MB for headers and sample data for storage
       const essentialChunk = file.slice(0, 10 * 1024 * 1024);
-      const essentialContent = await essentialChunk.text();
+      const essentialContent = decodeBytes(new Uint8Array(await essentialChunk.arrayBuffer()), encoding);
       
       return essentialContent;
     }
     
     // For large files, use streaming for full processing
     if (file.size > 50 * 1024 * 1024) { // 50MB threshold for streaming
-      return await processLargeFileStreaming(file);
+      return await processLargeFileStreaming(file, encoding);
     }
     
     // Process file in chunks with improved memory management
@@ -827,8 +867,8 @@ const processFileInChunks = async (file: File, forUploadProcessing: boolean = fa
       const chunk = chunks[i];
       
       try {
-        const chunkText = await chunk.text();
-        content += chunkText;
+        const chunkBytes = new Uint8Array(await chunk.arrayBuffer());
+        content += decoder.decode(chunkBytes, { stream: i < chunks.length - 1 });
         processedSize += chunk.size;
         
         // Minimal delay between chunks for speed
@@ -853,23 +893,25 @@ const processFileInChunks = async (file: File, forUploadProcessing: boolean = fa
  * Process file for storage in sessionStorage (can be optimized/truncated for large files)
  * This function may return truncated content to save browser storage space.
  */
-const processFileForStorage = async (file: File): Promise<string> => {
+const processFileForStorage = async (file: File, encoding: FileEncoding = 'utf-8'): Promise<string> => {
   // If Excel, convert to CSV text for downstream parsing/mapping
   if (isExcelMimeOrName(file)) {
     return await excelFileToCsvText(file);
   }
-  return await processFileInChunks(file, false); // false = enable storage optimization
+  return await processFileInChunks(file, false, encoding); // false = enable storage optimization
 };
 
 /**
  * Process file for import operations (always full content)
  * This function always returns the complete file content, regardless of size.
  */
-const processFileForImport = async (file: File): Promise<string> => {
+const processFileForImport = async (file: File, encoding?: FileEncoding): Promise<string> => {
   // If Excel, convert to CSV text for import processing
   if (isExcelMimeOrName(file)) {
     return await excelFileToCsvText(file);
   }
+  const fileEncoding = encoding || (await detectFileEncoding(file)).detection.encoding;
+  const decoder = new TextDecoder(fileEncoding);
   // For import operations, we need the full file content regardless of size
   const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB chunks
   let content = '';
@@ -881,7 +923,7 @@ const processFileForImport = async (file: File): Promise<string> => {
   }
   // Always use streaming for import to handle large files
   if (file.size > 50 * 1024 * 1024) {
-    return await processLargeFileStreaming(file);
+    return await processLargeFileStreaming(file, fileEncoding);
   }
   
   // Process file in chunks
@@ -897,8 +939,8 @@ const processFileForImport = async (file: File): Promise<string> => {
     const chunk = chunks[i];
     
     try {
-      const chunkText = await chunk.text();
-      content += chunkText;
+      const chunkBytes = new Uint8Array(await chunk.arrayBuffer());
+      content += decoder.decode(chunkBytes, { stream: i < chunks.length - 1 });
       processedSize += chunk.size;
       if (i < chunks.length - 1) {
         await new Promise(resolve => setTimeout(resolve, 5));
@@ -910,15 +952,15 @@ const processFileForImport = async (file: File): Promise<string> => {
   return content;
 };
 
-// Streaming approach for very large files with explicit UTF-8 decoding
-const processLargeFileStreaming = async (file: File): Promise<string> => {
+// Streaming approach for very large files with explicit decoding (UTF-8 unless detected otherwise)
+const processLargeFileStreaming = async (file: File, encoding: FileEncoding = 'utf-8'): Promise<string> => {
   const STREAM_CHUNK_SIZE = 1024 * 1024; // 1MB streaming chunks
   let content = '';
   let totalProcessed = 0;
   return new Promise((resolve, reject) => {
     try {
       const reader = file.stream().getReader();
-      const decoder = new TextDecoder('utf-8'); // Explicitly use UTF-8
+      const decoder = new TextDecoder(encoding); // Explicit encoding, BOM is stripped by the decoder
       
       const processStream = async () => {
         try {
@@ -926,6 +968,7 @@ const processLargeFileStreaming = async (file: File): Promise<string> => {
             const { done, value } = await reader.read();
             
             if (done) {
+              content += decoder.decode(); // Flush any pending partial character
               resolve(content);
               break;
             }
@@ -1009,7 +1052,7 @@ const getUniqueTableName = async (baseName: string): Promise<string> => {
 };
 
 // Create a new table using appropriate authentication method
-export const createNewTable = async (tableName: string, columns: string[]): Promise<string> => {
+export const createNewTable = async (tableName: string, fields: FieldSpec[]): Promise<string> => {
   let attempt = 0;
   const maxAttempts = 2;
   
@@ -1052,7 +1095,7 @@ export const createNewTable = async (tableName: string, columns: string[]): Prom
       // Handle the primary "Name" field and create other columns  
       const config = getApiConfig();
       const jwtToken = config.isProxyEnabled ? 'PROXY_HANDLED' : await getJWTToken(); // Get JWT token for table operations only in direct mode
-      await setupTableColumns(tableResult.id, columns, jwtToken);
+      await setupTableColumns(tableResult.id, fields, jwtToken);
 
       return tableResult.id.toString();
       
@@ -1073,8 +1116,8 @@ export const createNewTable = async (tableName: string, columns: string[]): Prom
   throw new Error('Failed to create table after multiple attempts');
 };
 
-// Setup table columns - rename primary field and create others with token refresh
-const setupTableColumns = async (tableId: string, columns: string[], initialJwtToken: string) => {
+// Setup table columns - convert primary field and create others with their field types
+const setupTableColumns = async (tableId: string, fields: FieldSpec[], initialJwtToken: string) => {
   let jwtToken = initialJwtToken;
   const config = getApiConfig();
   
@@ -1109,17 +1152,15 @@ const setupTableColumns = async (tableId: string, columns: string[], initialJwtT
       }
     }
 
-    const fields = await fieldsResponse.json();
+    const existingFields = await fieldsResponse.json();
     // Find the primary field (cannot be deleted, must exist)
-    const primaryField = fields.find((field: any) => field.primary === true);
+    const primaryField = existingFields.find((field: any) => field.primary === true);
     
-    if (primaryField && columns.length > 0) {
-      // Rename the primary field to the first CSV column
+    if (primaryField && fields.length > 0) {
+      // Rename the primary field to the first CSV column and give it the column's type
       let renameResponse = await makeJWTApiCall(`/database/fields/${primaryField.id}/`, {
         method: 'PATCH',
-        body: JSON.stringify({
-          name: columns[0]
-        }),
+        body: JSON.stringify(toFieldPayload(fields[0])),
       });
 
       if (!renameResponse.ok) {
@@ -1128,9 +1169,7 @@ const setupTableColumns = async (tableId: string, columns: string[], initialJwtT
           // Retry with fresh token
           renameResponse = await makeJWTApiCall(`/database/fields/${primaryField.id}/`, {
             method: 'PATCH',
-            body: JSON.stringify({
-              name: columns[0]
-            }),
+            body: JSON.stringify(toFieldPayload(fields[0])),
           });
         }
       }
@@ -1146,7 +1185,7 @@ const setupTableColumns = async (tableId: string, columns: string[], initialJwtT
     }
 
     // Delete any other default fields (but not the primary one)
-    for (const field of fields) {
+    for (const field of existingFields) {
       if (field.id !== primaryField?.id && (field.name === 'Notes' || field.name === 'Active')) {
         let deleteResponse = await makeJWTApiCall(`/database/fields/${field.id}/`, {
           method: 'DELETE'
@@ -1172,9 +1211,8 @@ const setupTableColumns = async (tableId: string, columns: string[], initialJwtT
     }
 
     // Create remaining columns (skip the first one since we renamed the primary field to it)
-    for (let i = 1; i < columns.length; i++) {
-      const columnName = columns[i];
-      await createTableColumn(tableId, columnName, jwtToken);
+    for (let i = 1; i < fields.length; i++) {
+      await createTableColumn(tableId, fields[i], jwtToken);
       // Wait between column creations
     }
 
@@ -1186,15 +1224,12 @@ const setupTableColumns = async (tableId: string, columns: string[], initialJwtT
   }
 };
 
-// Create a column in the table with token refresh support
-const createTableColumn = async (tableId: string, columnName: string, initialJwtToken: string) => {
+// Create a typed column in the table with token refresh support
+const createTableColumn = async (tableId: string, field: FieldSpec, initialJwtToken: string) => {
   let jwtToken = initialJwtToken;
   
   try {
-    const columnData = {
-      name: columnName,
-      type: 'text'
-    };
+    const columnData = toFieldPayload(field);
 
     let columnResponse = await makeJWTApiCall(`/database/fields/table/${tableId}/`, {
       method: 'POST',
@@ -1219,7 +1254,7 @@ const createTableColumn = async (tableId: string, columnName: string, initialJwt
       
       if (!columnResponse.ok) {
         const errorText = await columnResponse.text();
-        throw new Error(`Failed to create column: ${columnName} - ${errorText}`);
+        throw new Error(`Failed to create column: ${field.name} - ${errorText}`);
       }
     }
     
@@ -1336,53 +1371,141 @@ export const getMappingTableColumns = async (): Promise<string[]> => {
   }
 };
 
-// Parse CSV file to get headers using stored file content
-export const parseFileHeaders = async (file: File): Promise<string[]> => {
-  try {
-    // Get the uploaded file info from session storage
-    const uploadedFileInfo = sessionStorage.getItem('uploadedFileInfo');
-    if (!uploadedFileInfo) {
-      throw new Error('No uploaded file info found');
-    }
+// 'create' imports into a new table, 'append' adds the rows to an existing table and
+// 'upsert' updates existing rows matched by the key columns and adds the others
+export type ImportMode = 'create' | 'append' | 'upsert';
+
+// Options chosen on the mapping page that control how the file is parsed and imported
+export interface ImportOptions {
+  delimiter?: string; // CSV delimiter, detected from the content when not set
+  encoding?: FileEncoding; // Character encoding, defaults to the one detected at upload
+  fields?: FieldSpec[]; // Field type per target column, profiled from the values when not set
+  mode?: ImportMode; // Defaults to 'create'
+  targetTableId?: string; // Existing table for 'append'/'upsert', defaults to the configured target table
+  keyColumns?: string[]; // Target columns that identify a row in 'upsert' mode
+  duplicateKeyColumns?: string[]; // File columns that identify duplicates inside the file
+  duplicateStrategy?: DuplicateStrategy; // How duplicate groups are resolved, defaults to 'import_all'
+  resumeJobId?: string; // Continue an interrupted import from its last confirmed batch
+  dryRun?: boolean; // Only check the file and return a report, nothing is written to Baserow
+  columnRules?: ColumnRules; // How source values are combined into the target columns
+  validationRules?: ValidationRule[]; // Checked on every mapped row before it is sent
+}
 
-    const fileInfo = JSON.parse(uploadedFileInfo);
-    
-    // Use stored file content instead of fetching from URL
-    let content = fileInfo.fullFileContent || fileInfo.fileContent;
-    // If we have header-only content, use it directly (it should be sufficient for parsing headers)
-    if (fileInfo.isHeaderOnly && content) {
-    }
-    // If we need to reprocess or content is empty/truncated for large files
-    else if (!content || fileInfo.needsReprocessing || fileInfo.requiresFileReupload || (fileInfo.isLargeFile && content.length < 1000)) {
-      // Check if we're in a situation where file reupload is required
-      if (fileInfo.requiresFileReupload) {
-        throw new Error(`${fileInfo.storageWarning || 'Datei zu groß für Browser-Speicher'}\n\nBitte laden Sie eine kleinere Datei hoch oder teilen Sie die Datei auf.`);
-      }
-      
-      // For header parsing, we only need the first few lines, so read from the original file
-      try {
-        const headerChunk = file.slice(0, 1024 * 1024); // First 1MB should contain headers
-        content = await headerChunk.text();
-      } catch (fileReadError) {
-        // If we have optimized content, try to use it for headers
-        if (fileInfo.fileContent && (fileInfo.isOptimized || fileInfo.isHeaderOnly)) {
-          content = fileInfo.fileContent;
-          // Remove the truncation marker if present
-          content = content.replace('\n\n[...CONTENT_TRUNCATED_FOR_STORAGE...]\n\n', '\n');
-        } else {
-          throw new Error('Keine Dateiinhalte verfügbar für die Spalten-Analyse. Bitte laden Sie die Datei erneut hoch oder verwenden Sie eine kleinere Datei.');
-        }
-      }
+// Tables that can be used as import target (the upload and mapping tables are internal)
+export const getImportTargetTables = async (): Promise<{ tables: Array<{ id: string, name: string }>, defaultTableId: string }> => {
+  const tables = await listTablesInDatabase();
+  const internalTableIds = [BASEROW_CONFIG.tableId, BASEROW_CONFIG.mappingTableId].map(String);
+  return {
+    tables: tables
+      .map(table => ({ id: String(table.id), name: table.name }))
+      .filter(table => !internalTableIds.includes(table.id)),
+    defaultTableId: String(BASEROW_CONFIG.targetTableId)
+  };
+};
+
+// Fields of an existing table that can be filled by an import
+export const getTargetTableColumns = async (tableId: string): Promise<Array<{ id: number, name: string, type: string }>> => {
+  const fields = await getTableSchema(tableId);
+  return fields.filter((field: { type: string }) => isWritableFieldType(field.type));
+};
+
+// Encoding used at upload and whether it can still be changed (needs the raw byte sample)
+export const getFileEncodingInfo = (): { encoding: FileEncoding | null; detectedEncoding: FileEncoding | null; canChange: boolean } => {
+  const uploadedFileInfo = sessionStorage.getItem('uploadedFileInfo');
+  if (!uploadedFileInfo) {
+    return { encoding: null, detectedEncoding: null, canChange: false };
+  }
+  const fileInfo = JSON.parse(uploadedFileInfo);
+  return {
+    encoding: fileInfo.encoding || null,
+    detectedEncoding: fileInfo.detectedEncoding || fileInfo.encoding || null,
+    canChange: !!fileInfo.encodingSample
+  };
+};
+
+// Download the original upload again and decode it with the given encoding
+const fetchOriginalFileContent = async (fileInfo: any, encoding: FileEncoding): Promise<string> => {
+  if (!fileInfo.file?.url) {
+    throw new Error('Die Originaldatei ist nicht mehr verfügbar. Bitte laden Sie die Datei erneut hoch.');
+  }
+  const config = getApiConfig();
+  const response = config.isProxyEnabled
+    ? await fetch(`${config.proxyBaseUrl}/api/proxy-user-file?url=${encodeURIComponent(fileInfo.file.url)}`)
+    : await fetch(fileInfo.file.url);
+  if (!response.ok) {
+    throw new Error(`Die Originaldatei konnte für die gewählte Zeichenkodierung nicht geladen werden (${response.status}).`);
+  }
+  return decodeBytes(new Uint8Array(await response.arrayBuffer()), encoding);
+};
+
+// Load enough of the stored file content to parse the header row
+const loadHeaderContent = async (file: File, encoding?: FileEncoding): Promise<{ content: string, fileInfo: any }> => {
+  // Get the uploaded file info from session storage
+  const uploadedFileInfo = sessionStorage.getItem('uploadedFileInfo');
+  if (!uploadedFileInfo) {
+    throw new Error('No uploaded file info found');
+  }
+
+  const fileInfo = JSON.parse(uploadedFileInfo);
+
+  // Re-decode the raw sample when the user picked another encoding than the one used at upload
+  if (encoding && fileInfo.encodingSample && encoding !== (fileInfo.encoding || 'utf-8')) {
+    return { content: decodeBytes(base64ToBytes(fileInfo.encodingSample), encoding), fileInfo };
+  }
+  
+  // Use stored file content instead of fetching from URL
+  let content = fileInfo.fullFileContent || fileInfo.fileContent;
+  // If we have header-only content, use it directly (it should be sufficient for parsing headers)
+  if (fileInfo.isHeaderOnly && content) {
+  }
+  // If we need to reprocess or content is empty/truncated for large files
+  else if (!content || fileInfo.needsReprocessing || fileInfo.requiresFileReupload || (fileInfo.isLargeFile && content.length < 1000)) {
+    // Check if we're in a situation where file reupload is required
+    if (fileInfo.requiresFileReupload) {
+      throw new Error(`${fileInfo.storageWarning || 'Datei zu groß für Browser-Speicher'}\n\nBitte laden Sie eine kleinere Datei hoch oder teilen Sie die Datei auf.`);
     }
     
-    if (!content) {
-      throw new Error('No file content found for header parsing');
+    // For header parsing, we only need the first few lines, so read from the original file
+    try {
+      const headerChunk = file.slice(0, 1024 * 1024); // First 1MB should contain headers
+      // Decoded like the stored content, so umlauts of non UTF-8 files survive
+      content = decodeFileBuffer(await headerChunk.arrayBuffer(), encoding || fileInfo.encoding);
+    } catch (fileReadError) {
+      // If we have optimized content, try to use it for headers
+      if (fileInfo.fileContent && (fileInfo.isOptimized || fileInfo.isHeaderOnly)) {
+        content = fileInfo.fileContent;
+        // Remove the truncation marker if present
+        content = content.replace('\n\n[...CONTENT_TRUNCATED_FOR_STORAGE...]\n\n', '\n');
+      } else {
+        throw new Error('Keine Dateiinhalte verfügbar für die Spalten-Analyse. Bitte laden Sie die Datei erneut hoch oder verwenden Sie eine kleinere Datei.');
+      }
     }
+  }
+  
+  if (!content) {
+    throw new Error('No file content found for header parsing');
+  }
+  return { content, fileInfo };
+};
+
+// Detect the delimiter of the uploaded file (converted Excel files are always comma-separated)
+export const detectFileDelimiter = async (file: File, encoding?: FileEncoding): Promise<CsvDelimiter> => {
+  const { content, fileInfo } = await loadHeaderContent(file, encoding);
+  if (isExcelMimeOrName(file, fileInfo)) {
+    return ',';
+  }
+  return detectDelimiter(content);
+};
+
+// Parse CSV file to get headers using stored file content
+export const parseFileHeaders = async (file: File, options: ImportOptions = {}): Promise<string[]> => {
+  try {
+    const { content, fileInfo } = await loadHeaderContent(file, options.encoding);
     if (file.name.toLowerCase().endsWith('.csv') || isExcelMimeOrName(file, fileInfo) || (fileInfo.file?.mime_type?.includes('csv'))) {
       // Parse CSV text (original CSV or converted Excel)
-      const lines = content.split('\n');
-      if (lines.length > 0) {
-        const headers = parseCSVLine(lines[0]);
+      const delimiter = options.delimiter || detectDelimiter(content);
+      const headers = parseCSVHeader(content, { delimiter });
+      if (headers.length > 0) {
         return headers.filter(header => header.length > 0);
       } else {
         throw new Error('CSV file appears to be empty');
@@ -1396,6 +1519,18 @@ export const parseFileHeaders = async (file: File): Promise<string[]> => {
   }
 };
 
+// Parse the header and the first data rows, used to propose field types on the mapping page
+export const parseFileSample = async (file: File, options: ImportOptions = {}, maxRows: number = 200): Promise<{ headers: string[], rows: string[][] }> => {
+  const { content } = await loadHeaderContent(file, options.encoding);
+  const delimiter = options.delimiter || detectDelimiter(content);
+  const [headerRecord, ...dataRecords] = parseCSV(content, { delimiter, maxRecords: maxRows + 1 })
+    .filter(record => !isEmptyRecord(record));
+  return {
+    headers: headerRecord ? headerRecord.values : [],
+    rows: dataRecords.map(record => record.values)
+  };
+};
+
 // Enhanced progress callback interface
 interface ProgressInfo {
   current: number;
@@ -1407,14 +1542,223 @@ interface ProgressInfo {
   currentBatch?: number;
   totalBatches?: number;
   failed?: number;
+  invalid?: number; // Rows left out because they broke an error rule
+  flagged?: number; // Rows imported with a warning
   processing?: 'bulk' | 'standard' | 'individual';
 }
 
+// Load the complete file content and parse it into the header and the data records
+const loadImportRecords = async (
+  fileInfo: any,
+  options: ImportOptions,
+  releaseTemporaryContent: boolean
+): Promise<{ headers: string[], dataRecords: CsvRecord[], delimiter: string, emptyRecords: number }> => {
+  // For large files, we need to fetch the entire file content from the uploaded file URL
+  let content: string;
+  
+  // Check if we have complete content in session storage first
+  const storedContent = fileInfo.fullFileContent || fileInfo.fileContent || '';
+  const storedLines = storedContent.split(/\r?\n/).filter(line => line.trim());
+  
+  // Check if file requires reupload due to storage limitations
+  if (fileInfo.requiresFileReupload) {
+    throw new Error(`${fileInfo.storageWarning || 'Datei zu groß für Browser-Speicher'}\n\nUm den Import durchzuführen, teilen Sie bitte die Datei in kleinere Abschnitte auf (empfohlen: < 20MB pro Datei).`);
+  }
+  
+  // Determine if we need to fetch full content
+  let needsFullFetch = false;
+  
+  // Check if we only have headers but can import from original source
+  if (fileInfo.isHeaderOnly && fileInfo.canImportFromOriginal) {
+    needsFullFetch = true; // Force full fetch from server
+  }
+  // Check if we only have headers and cannot import
+  else if (fileInfo.isHeaderOnly) {
+    throw new Error(`${fileInfo.storageWarning || 'Nur Spalten-Mapping verfügbar'}\n\nFür den vollständigen Import benötigen Sie eine kleinere Datei oder müssen die große Datei in kleinere Abschnitte aufteilen.`);
+  }
+  
+  if (fileInfo.isOptimized) {
+    needsFullFetch = true;
+  } else if (fileInfo.needsReprocessing) {
+    needsFullFetch = true;
+  } else if (storedLines.length <= 1000 && fileInfo.totalLines && fileInfo.totalLines > storedLines.length) {
+    needsFullFetch = true;
+  }
+  
+  // A different encoding than the one used at upload requires the original bytes
+  const encodingOverride = options.encoding && fileInfo.encodingSample && options.encoding !== (fileInfo.encoding || 'utf-8')
+    ? options.encoding
+    : null;
+
+  if (encodingOverride) {
+    content = await fetchOriginalFileContent(fileInfo, encodingOverride);
+  }
+  // If we need full content for large files, check temporary storage first
+  else if (needsFullFetch) {  // ✅ FIXED: Check for ANY file needing full fetch, not just header-only
+    if (TEMP_FILE_METADATA) {
+    }
+    
+    // First, check if we have the content in temporary memory
+    if (TEMP_FILE_CONTENT && TEMP_FILE_METADATA && TEMP_FILE_METADATA.recordId === fileInfo.recordId) {
+      content = TEMP_FILE_CONTENT;
+      
+      // Clear temporary storage to free memory (kept while the file is only analysed)
+      if (releaseTemporaryContent) {
+        TEMP_FILE_CONTENT = null;
+        TEMP_FILE_METADATA = null;
+      }
+    } else {
+      // Use the recovery helper to get full content if possible
+      content = await recoverFullFileContentIfNeeded(fileInfo, storedContent);
+      
+      // Clean up any truncation markers
+      content = content.replace(/\n\n\[\.\.\.CONTENT_TRUNCATED_FOR_STORAGE\.\.\.\]\n\n/g, '\n');
+      
+      const recoveredLines = content.split(/\r?\n/).filter(line => line.trim());
+      if (fileInfo.totalLines && recoveredLines.length < fileInfo.totalLines * 0.9) {
+      } else {
+      }
+    }
+  } else {
+    // Use stored content
+    content = storedContent.replace(/\n\n\[\.\.\.CONTENT_TRUNCATED_FOR_STORAGE\.\.\.\]\n\n/g, '\n');
+    if (fileInfo.isOptimized) {
+    }
+  }
+
+  if (!content) {
+    // Provide helpful error message about large file handling
+    let errorMessage = fileInfo.storageWarning 
+      ? `Dateiinhalt nicht verfügbar: ${fileInfo.storageWarning}`
+      : 'No file content found and unable to fetch from server';
+      
+    if (fileInfo.requiresFileReupload) {
+      errorMessage += '\n\n🔧 LÖSUNG: Teilen Sie die Datei in kleinere Abschnitte auf (< 20MB pro Datei).';
+    } else if (fileInfo.isLargeFile && fileInfo.originalFileSize > 50 * 1024 * 1024) {
+      errorMessage += `\n\n📊 Dateigröße: ${(fileInfo.originalFileSize / 1024 / 1024).toFixed(1)}MB\n🔧 EMPFEHLUNG: Verwenden Sie kleinere Dateien (< 20MB) für optimale Performance.`;
+    }
+      
+    throw new Error(errorMessage);
+  }
+  // Tokenize the whole content so quoted fields may span multiple lines
+  const delimiter = options.delimiter || detectDelimiter(content);
+  const parsedRecords = parseCSV(content, { delimiter });
+  const csvRecords = parsedRecords.filter(record => !isEmptyRecord(record));
+  // Check for content truncation and warn user
+  if (fileInfo.isOptimized && csvRecords.length < (fileInfo.totalLines || 0)) {
+  }
+  
+  // Show success message for large file processing
+  if (fileInfo.originalFileSize > 20 * 1024 * 1024 && csvRecords.length > 10000) {
+  }
+  
+  // Detect truncation markers
+  if (content.includes('[...CONTENT_TRUNCATED_FOR_STORAGE...]')) {
+  }
+  
+  if (csvRecords.length < 2) {
+    throw new Error('File must have at least a header row and one data row');
+  }
+  
+  return {
+    headers: csvRecords[0].values,
+    dataRecords: csvRecords.slice(1),
+    delimiter,
+    emptyRecords: parsedRecords.length - csvRecords.length
+  };
+};
+
+// Positions of the given file columns in the header row
+const getColumnIndexes = (headers: string[], columns: string[]): number[] => {
+  return columns
+    .map(column => headers.findIndex(header => header.trim().replace(/"/g, '') === column))
+    .filter(index => index >= 0);
+};
+
+// Find duplicate records inside the uploaded file for the review step on the mapping page
+export const analyzeFileDuplicates = async (options: ImportOptions, keyColumns: string[]): Promise<{ headers: string[], groups: DuplicateGroup[] }> => {
+  const uploadedFileInfo = sessionStorage.getItem('uploadedFileInfo');
+  if (!uploadedFileInfo) {
+    throw new Error('No uploaded file info found');
+  }
+  const { headers, dataRecords } = await loadImportRecords(JSON.parse(uploadedFileInfo), options, false);
+  return { headers, groups: findDuplicateGroups(dataRecords, getColumnIndexes(headers, keyColumns)) };
+};
+
+// Unfinished import of the current upload, offered for resuming on the mapping page
+export const getInterruptedImportJob = async (): Promise<ImportJob | null> => {
+  const uploadedFileInfo = sessionStorage.getItem('uploadedFileInfo');
+  if (!uploadedFileInfo || !isIndexedDBAvailable()) {
+    return null;
+  }
+  const fileInfo = JSON.parse(uploadedFileInfo);
+  return fileInfo.recordId ? fileStorage.getJobForRecord(fileInfo.recordId) : null;
+};
+
+export const discardImportJob = async (jobId: string): Promise<void> => {
+  await fileStorage.deleteJob(jobId);
+};
+
+// Submit failed rows again into the same table (updates of an upsert stay updates)
+export const retryFailedRecords = async (
+  tableId: string,
+  failedRecords: FailedRecord[]
+): Promise<{ created: number, updated: number, failedRecords: FailedRecord[] }> => {
+  const config = getApiConfig();
+  const jwtToken = config.isProxyEnabled ? 'PROXY_HANDLED' : await ensureFreshToken();
+  const records: PreparedRecord[] = failedRecords.map(({ lineNumber, values, data }) => ({ lineNumber, values, data }));
+  const toUpdate = records.filter(record => record.data.id !== undefined);
+  const toCreate = records.filter(record => record.data.id === undefined);
+
+  let created = 0;
+  let updated = 0;
+  const remainingFailures: FailedRecord[] = [];
+
+  for (const batch of buildWriteBatches(toCreate, toUpdate, PERFORMANCE_CONFIG.BATCH_SIZE)) {
+    const result = await processWriteBatch(batch, tableId, jwtToken);
+    if (batch.operation === 'update') {
+      updated += result.success;
+    } else {
+      created += result.success;
+    }
+    remainingFailures.push(...result.failedRecords);
+  }
+
+  return { created, updated, failedRecords: remainingFailures };
+};
+
+// Name of a new import table. Format: {Firma}_{Zielgruppe}_{YYYY-MM-DD}; uniqueness is ensured with a suffix.
+const getImportTableBaseName = (userData: { company?: string, zielgruppe?: string }): string => {
+  const company = (userData.company || '').trim();
+  const zielgruppe = (userData.zielgruppe || '').trim();
+  const dateStr = new Date().toISOString().slice(0, 10);
+  const rawBaseName = `${company}_${zielgruppe}_${dateStr}`.replace(/\s+/g, ' ').trim();
+  return rawBaseName.replace(/\s/g, '_');
+};
+
 // Process the mapped data and create records in new table with progress callback
 export const processImportData = async (
   mappings: Record<string, string>, 
-  progressCallback?: (progress: ProgressInfo) => void
-): Promise<{ total: number, created: number, updated: number, tableId: string, tableName: string, failed?: number, verified?: number }> => {
+  progressCallback?: (progress: ProgressInfo) => void,
+  options: ImportOptions = {}
+): Promise<{
+  total: number,
+  created: number,
+  updated: number,
+  unchanged: number,
+  tableId: string,
+  tableName: string,
+  mode: ImportMode,
+  failed?: number,
+  verified?: number,
+  failedRecords: FailedRecord[],
+  invalidRecords: ValidationFinding[],
+  flaggedRecords: ValidationFinding[],
+  emailFindings: EmailFinding[],
+  headers: string[],
+  delimiter: string,
+  dryRunReport?: DryRunReport
+}> => {
   const startTime = performance.now();
   
   // Create new AbortController for this import
@@ -1465,136 +1809,166 @@ export const processImportData = async (
     const fileInfo = JSON.parse(uploadedFileInfo);
     const userData = fileInfo.userData;
 
-    // For large files, we need to fetch the entire file content from the uploaded file URL
-    let content: string;
-    
-    // Check if we have complete content in session storage first
-    const storedContent = fileInfo.fullFileContent || fileInfo.fileContent || '';
-    const storedLines = storedContent.split(/\r?\n/).filter(line => line.trim());
-    
-    // Check if file requires reupload due to storage limitations
-    if (fileInfo.requiresFileReupload) {
-      throw new Error(`${fileInfo.storageWarning || 'Datei zu groß für Browser-Speicher'}\n\nUm den Import durchzuführen, teilen Sie bitte die Datei in kleinere Abschnitte auf (empfohlen: < 20MB pro Datei).`);
+    // A dry run keeps the file content in memory for the import that follows
+    const { headers, dataRecords: parsedRecords, delimiter, emptyRecords } = await loadImportRecords(fileInfo, options, !options.dryRun);
+
+    // Resolve duplicates inside the file as chosen in the review step
+    const duplicateKeyIndexes = getColumnIndexes(headers, options.duplicateKeyColumns || []);
+    const { records: dataRecords, removed: duplicatesRemoved } = resolveDuplicates(parsedRecords, duplicateKeyIndexes, options.duplicateStrategy || 'import_all');
+    // An interrupted import continues in the table it already filled
+    const resumeJob = options.resumeJobId ? await fileStorage.getJob(options.resumeJobId) : null;
+    if (options.resumeJobId && !resumeJob) {
+      throw new Error('Der unterbrochene Import wurde nicht gefunden. Bitte starten Sie den Import neu.');
+    }
+
+    // Get unique mapped columns, including the targets of split and extra columns;
+    // extra columns from the upload form, file name and import time get the same value in every row,
+    // also in the rows a resumed import writes
+    const columnRules: ColumnRules = {
+      ...options.columnRules,
+      extras: resumeJob?.extras || resolveExtraColumns(options.columnRules?.extras || [], {
+        userData,
+        fileName: fileInfo.fileName,
+        importedAt: resumeJob ? new Date(resumeJob.createdAt) : new Date(),
+      }),
+    };
+    const mappedColumns = getMappedTargetColumns(mappings, columnRules);
+    if (mappedColumns.length === 0) {
+      throw new Error('No columns mapped for import');
     }
     
-    // Determine if we need to fetch full content
-    let needsFullFetch = false;
-    
-    // Check if we only have headers but can import from original source
-    if (fileInfo.isHeaderOnly && fileInfo.canImportFromOriginal) {
-      needsFullFetch = true; // Force full fetch from server
+    const mode: ImportMode = options.mode || 'create';
+    const appendMode = mode === 'append' || mode === 'upsert';
+    const keyColumns = (options.keyColumns || []).filter(column => mappedColumns.includes(column));
+    if (mode === 'upsert' && keyColumns.length === 0) {
+      throw new Error('Für den Upsert-Modus muss mindestens eine zugeordnete Schlüsselspalte gewählt werden.');
     }
-    // Check if we only have headers and cannot import
-    else if (fileInfo.isHeaderOnly) {
-      throw new Error(`${fileInfo.storageWarning || 'Nur Spalten-Mapping verfügbar'}\n\nFür den vollständigen Import benötigen Sie eine kleinere Datei oder müssen die große Datei in kleinere Abschnitte aufteilen.`);
-    }
-    
-    if (fileInfo.isOptimized) {
-      needsFullFetch = true;
-    } else if (fileInfo.needsReprocessing) {
-      needsFullFetch = true;
-    } else if (storedLines.length <= 1000 && fileInfo.totalLines && fileInfo.totalLines > storedLines.length) {
-      needsFullFetch = true;
+
+    // Dry run: convert every mapped value and report the result without any API writes
+    if (options.dryRun) {
+      const targetTableId = appendMode ? String(options.targetTableId || BASEROW_CONFIG.targetTableId) : '';
+      const { tableName, fieldSpecs } = appendMode
+        ? await prepareExistingTable(targetTableId, dataRecords, headers, mappings, columnRules, mappedColumns, options.fields, false)
+        : {
+          tableName: await getUniqueTableName(getImportTableBaseName(userData)),
+          fieldSpecs: profileMappedColumns(dataRecords, headers, mappings, columnRules, mappedColumns, options.fields)
+        };
+      const duplicateGroups = findDuplicateGroups(parsedRecords, duplicateKeyIndexes);
+      const dryRunReport = buildDryRunReport({
+        tableName,
+        headers,
+        records: dataRecords,
+        mappings,
+        columnRules,
+        validationRules: options.validationRules || [],
+        fieldSpecs,
+        totalRows: parsedRecords.length + emptyRecords,
+        emptyRows: emptyRecords,
+        duplicateGroups: duplicateGroups.length,
+        duplicateRows: duplicateGroups.reduce((sum, group) => sum + group.records.length - 1, 0),
+        duplicatesRemoved,
+        duplicateStrategy: options.duplicateStrategy || 'import_all'
+      });
+      return {
+        total: dryRunReport.importRows,
+        created: 0,
+        updated: 0,
+        unchanged: 0,
+        tableId: targetTableId,
+        tableName,
+        mode,
+        failedRecords: [],
+        invalidRecords: [],
+        flaggedRecords: [],
+        emailFindings: [],
+        headers,
+        delimiter,
+        dryRunReport
+      };
     }
-    
-    // If we need full content for large files, check temporary storage first
-    if (needsFullFetch) {  // ✅ FIXED: Check for ANY file needing full fetch, not just header-only
-      if (TEMP_FILE_METADATA) {
-      }
-      
-      // First, check if we have the content in temporary memory
-      if (TEMP_FILE_CONTENT && TEMP_FILE_METADATA && TEMP_FILE_METADATA.recordId === fileInfo.recordId) {
-        content = TEMP_FILE_CONTENT;
-        
-        // Clear temporary storage to free memory
-        TEMP_FILE_CONTENT = null;
-        TEMP_FILE_METADATA = null;
-      } else {
-        // Use the recovery helper to get full content if possible
-        content = await recoverFullFileContentIfNeeded(fileInfo, storedContent);
-        
-        // Clean up any truncation markers
-        content = content.replace(/\n\n\[\.\.\.CONTENT_TRUNCATED_FOR_STORAGE\.\.\.\]\n\n/g, '\n');
-        
-        const recoveredLines = content.split(/\r?\n/).filter(line => line.trim());
-        if (fileInfo.totalLines && recoveredLines.length < fileInfo.totalLines * 0.9) {
-        } else {
-        }
+
+    let tableId: string;
+    let tableName: string;
+    let fieldSpecs: FieldSpec[];
+    let existingRowCount = 0;
+
+    if (resumeJob) {
+      ({ tableId, tableName, fieldSpecs, existingRowCount } = resumeJob);
+      // Rows created before the interruption now match their key, so an upsert simply runs again from the start.
+      // Other modes skip the confirmed batches and match the rows written after the last checkpoint by content.
+      if (mode === 'upsert') {
+        Object.assign(resumeJob, { completedBatches: [], created: 0, updated: 0, unchanged: 0, failed: 0, failedRecords: [] });
       }
+    } else if (appendMode) {
+      // Append to (or upsert into) an existing table; missing "add new" columns are created on it
+      tableId = String(options.targetTableId || BASEROW_CONFIG.targetTableId);
+      ({ tableName, fieldSpecs } = await prepareExistingTable(tableId, dataRecords, headers, mappings, columnRules, mappedColumns, options.fields));
+      existingRowCount = await countTableRows(tableId);
     } else {
-      // Use stored content
-      content = storedContent.replace(/\n\n\[\.\.\.CONTENT_TRUNCATED_FOR_STORAGE\.\.\.\]\n\n/g, '\n');
-      if (fileInfo.isOptimized) {
+      // Create a new table with a unique name
+      tableName = await getUniqueTableName(getImportTableBaseName(userData));
+      // Use the field types chosen on the mapping page, profile the remaining columns
+      fieldSpecs = profileMappedColumns(dataRecords, headers, mappings, columnRules, mappedColumns, options.fields);
+      tableId = await createNewTable(tableName, fieldSpecs);
+      // Clean up any default rows that Baserow might have added automatically
+      // No need to get token for this as verifyRecordsCreated uses makeApiCall
+      const defaultRows = await verifyRecordsCreated(tableId);
+
+      if (defaultRows.length > 0) {
+        for (const row of defaultRows) {
+          await makeApiCall(`/database/rows/table/${tableId}/${row.id}/`, {
+            method: 'DELETE'
+          });
+        }
       }
     }
 
-    if (!content) {
-      // Provide helpful error message about large file handling
-      let errorMessage = fileInfo.storageWarning 
-        ? `Dateiinhalt nicht verfügbar: ${fileInfo.storageWarning}`
-        : 'No file content found and unable to fetch from server';
-        
-      if (fileInfo.requiresFileReupload) {
-        errorMessage += '\n\n🔧 LÖSUNG: Teilen Sie die Datei in kleinere Abschnitte auf (< 20MB pro Datei).';
-      } else if (fileInfo.isLargeFile && fileInfo.originalFileSize > 50 * 1024 * 1024) {
-        errorMessage += `\n\n📊 Dateigröße: ${(fileInfo.originalFileSize / 1024 / 1024).toFixed(1)}MB\n🔧 EMPFEHLUNG: Verwenden Sie kleinere Dateien (< 20MB) für optimale Performance.`;
-      }
-        
-      throw new Error(errorMessage);
-    }
-    // Improved line splitting and filtering for very large files
-    const lines = content
-      .split(/\r?\n/)
-      .map(line => line.trim())
-      .filter(line => line && !/^["',\s]*$/.test(line));
-    // Check for content truncation and warn user
-    if (fileInfo.isOptimized && lines.length < (fileInfo.totalLines || 0)) {
-    }
-    
-    // Show success message for large file processing
-    if (fileInfo.originalFileSize > 20 * 1024 * 1024 && lines.length > 10000) {
-    }
-    
-    // Detect truncation markers
-    if (content.includes('[...CONTENT_TRUNCATED_FOR_STORAGE...]')) {
+    // Update the record in table 787 with the new table ID
+    if (!resumeJob) {
+      await updateRecordWithTableId(fileInfo.recordId, tableId);
     }
-    
-    if (lines.length < 2) {
-      throw new Error('File must have at least a header row and one data row');
+
+    // Keep a checkpoint of the confirmed batches so the import can be resumed after an interruption
+    let importJob: ImportJob | undefined;
+    if (isIndexedDBAvailable() && fileInfo.recordId) {
+      importJob = resumeJob || {
+        id: `job_${fileInfo.recordId}_${Date.now()}`,
+        recordId: fileInfo.recordId,
+        fileName: fileInfo.fileName,
+        tableId,
+        tableName,
+        mappings,
+        options: { ...options, resumeJobId: undefined },
+        fieldSpecs,
+        extras: columnRules.extras,
+        existingRowCount,
+        totalBatches: 0,
+        completedBatches: [],
+        created: 0,
+        updated: 0,
+        unchanged: 0,
+        failed: 0,
+        failedRecords: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+      };
+      await saveImportCheckpoint(importJob, []);
     }
     
-    const headers = parseCSVLine(lines[0]);
-    // Get unique mapped columns
-    const mappedColumns = [...new Set(Object.values(mappings).filter(col => col !== 'ignore'))];
-    if (mappedColumns.length === 0) {
-      throw new Error('No columns mapped for import');
+    // Get fresh field mappings after table setup
+    const targetFields = await getTargetFields(tableId, fieldSpecs);
+
+    // Index the existing rows by their key so matching records update them instead of creating duplicates
+    let upsertIndex: UpsertIndex | undefined;
+    if (mode === 'upsert') {
+      const keyFields = keyColumns.map(column => `field_${targetFields[column].id}`);
+      upsertIndex = buildUpsertIndex(await fetchAllTableRows(tableId), keyFields);
     }
-    
-    // Always create a new table. Name format: {Firma}_{Zielgruppe}_{YYYY-MM-DD}; ensure uniqueness with suffix.
-    const company = (userData.company || '').trim();
-    const zielgruppe = (userData.zielgruppe || '').trim();
-    const dateStr = new Date().toISOString().slice(0, 10);
-    const rawBaseName = `${company}_${zielgruppe}_${dateStr}`.replace(/\s+/g, ' ').trim();
-    const baseName = rawBaseName.replace(/\s/g, '_');
-    const uniqueName = await getUniqueTableName(baseName);
-    const tableId = await createNewTable(uniqueName, mappedColumns);
-    // Clean up any default rows that Baserow might have added automatically
-    // No need to get token for this as verifyRecordsCreated uses makeApiCall
-    const defaultRows = await verifyRecordsCreated(tableId);
-
-    if (defaultRows.length > 0) {
-      for (const row of defaultRows) {
-        await makeApiCall(`/database/rows/table/${tableId}/${row.id}/`, {
-          method: 'DELETE'
-        });
-      }
+    let resumeIndex: ResumeIndex | undefined;
+    if (resumeJob && mode !== 'upsert') {
+      const importFields = Object.values(targetFields).map(field => `field_${field.id}`);
+      resumeIndex = buildResumeIndex(await fetchAllTableRows(tableId), existingRowCount, importFields);
     }
-
-    // Update the record in table 787 with the new table ID
-  await updateRecordWithTableId(fileInfo.recordId, tableId);
-    
-    // Get fresh field mappings after table setup
-    const fieldMappings = await getFieldMappings(tableId, mappedColumns);
     // For proxy mode, tokens are handled server-side, no need to get JWT token
     const jwtToken = config.isProxyEnabled ? 'PROXY_HANDLED' : await ensureFreshToken();
     
@@ -1602,7 +1976,7 @@ export const processImportData = async (
     }
 
     // Process data rows with streaming approach for very large files
-    const totalDataRows = lines.length - 1;
+    const totalDataRows = dataRecords.length;
     const isVeryLargeFile = totalDataRows > PERFORMANCE_CONFIG.LARGE_FILE_THRESHOLD; // Use parallel processing for files over threshold
     
     // Initialize progress dialog with actual file data immediately
@@ -1618,12 +1992,12 @@ export const processImportData = async (
       });
     }
     
-    let importResults: { attempted: number, created: number, failed: number, failedRecords: any[] };
+    let importResults: ImportBatchResults;
     
     if (isVeryLargeFile) {
-      importResults = await processVeryLargeFileData(lines, headers, mappings, mappedColumns, fieldMappings, tableId, jwtToken, progressCallback);
+      importResults = await processVeryLargeFileData(dataRecords, headers, mappings, columnRules, options.validationRules || [], mappedColumns, targetFields, tableId, jwtToken, progressCallback, upsertIndex, resumeIndex, importJob);
     } else {
-      importResults = await processStandardFileData(lines, headers, mappings, mappedColumns, fieldMappings, tableId, jwtToken, progressCallback);
+      importResults = await processStandardFileData(dataRecords, headers, mappings, columnRules, options.validationRules || [], mappedColumns, targetFields, tableId, jwtToken, progressCallback, upsertIndex, resumeIndex, importJob);
     }
 
     // Print comprehensive summary
@@ -1646,9 +2020,9 @@ export const processImportData = async (
     // Reduced delay for faster verification
     await new Promise(resolve => setTimeout(resolve, 500)); // Reduced from 2000ms to 500ms
 
-    // Verify records were actually created
-    const verificationRows = await verifyRecordsCreated(tableId);
-    if (importResults.created !== verificationRows.length) {
+    // Verify records were actually created (rows that existed before an append are not counted)
+    const verifiedCount = (await countTableRows(tableId)) - existingRowCount;
+    if (importResults.created !== verifiedCount) {
     } else {
     }
     
@@ -1657,6 +2031,9 @@ export const processImportData = async (
     // Clean up IndexedDB storage after successful import
     if (isIndexedDBAvailable() && fileInfo.recordId) {
       try {
+        if (importJob) {
+          await fileStorage.deleteJob(importJob.id);
+        }
         await fileStorage.deleteFile(fileInfo.recordId);
       } catch (cleanupError) {
       }
@@ -1665,11 +2042,19 @@ export const processImportData = async (
     return { 
       total: importResults.attempted, 
       created: importResults.created, 
-      updated: 0, 
+      updated: importResults.updated, 
+      unchanged: importResults.unchanged,
       tableId, 
-  tableName: uniqueName,
+      tableName,
+      mode,
       failed: importResults.failed,
-      verified: verificationRows.length
+      verified: verifiedCount,
+      failedRecords: importResults.failedRecords,
+      invalidRecords: importResults.invalidRecords,
+      flaggedRecords: importResults.flaggedRecords,
+      emailFindings: importResults.emailFindings,
+      headers,
+      delimiter
     };
   } catch (error) {
     const endTime = performance.now();
@@ -1680,82 +2065,44 @@ export const processImportData = async (
 
 // Optimized processing for very large files with PARALLEL BATCH PROCESSING! 🚀
 const processVeryLargeFileData = async (
-  lines: string[], 
+  records: CsvRecord[], 
   headers: string[], 
   mappings: Record<string, string>, 
+  columnRules: ColumnRules,
+  validationRules: ValidationRule[],
   mappedColumns: string[], 
-  fieldMappings: Record<string, number>, 
+  targetFields: Record<string, TargetField>, 
   tableId: string, 
   jwtToken: string,
-  progressCallback?: (progress: ProgressInfo) => void
-): Promise<{ attempted: number, created: number, failed: number, failedRecords: any[] }> => {
+  progressCallback?: (progress: ProgressInfo) => void,
+  upsertIndex?: UpsertIndex,
+  resumeIndex?: ResumeIndex,
+  importJob?: ImportJob
+): Promise<ImportBatchResults> => {
   const startTime = performance.now();
-  let attempted = 0;
-  let created = 0;
-  let totalFailed = 0;
-  const allFailedRecords: any[] = [];
+  // A resumed import continues with the totals of the confirmed batches
+  let created = importJob?.created || 0;
+  let updated = importJob?.updated || 0;
+  let totalFailed = importJob?.failed || 0;
+  const allFailedRecords: FailedRecord[] = [...(importJob?.failedRecords || [])];
   const BATCH_SIZE = PERFORMANCE_CONFIG.BATCH_SIZE; // Baserow's API limit per batch
   const PARALLEL_BATCHES = PERFORMANCE_CONFIG.PARALLEL_BATCHES; // Process multiple batches concurrently!
+  const composeTargetValues = createTargetComposer(headers, mappings, columnRules);
+  const emailColumns = getEmailColumns(headers, mappings, columnRules, targetFields);
   
   // First, prepare all data records
-  const allRecords: any[] = [];
-  for (let i = 1; i < lines.length; i++) {
-    // Check for cancellation
-    if (IMPORT_ABORT_CONTROLLER?.signal.aborted) {
-      throw new Error('Import cancelled by user');
-    }
-    
-    const line = lines[i].trim();
-
-    // Skip empty lines
-    if (!line || /^["',\s]*$/.test(line)) {
-      continue;
-    }
-
-    const values = parseCSVLine(line);
-    
-    // Skip if all values are empty
-    if (values.every(v => !v || (typeof v === 'string' && v.trim() === ''))) {
-      continue;
-    }
-
-    // Map values to Baserow fields
-    const mappedData: any = {};
-    let hasValidData = false;
-
-    headers.forEach((header, index) => {
-      const cleanHeader = header.trim().replace(/"/g, '');
-      const targetColumn = mappings[cleanHeader];
-
-      if (targetColumn && targetColumn !== 'ignore' && values[index] !== undefined) {
-        const fieldId = fieldMappings[targetColumn];
-        
-        // Safety check for missing field mappings
-        if (fieldId === undefined) {
-          return;
-        }
-        
-        const value = typeof values[index] === 'string' ? values[index].trim() : values[index];
-
-        if (fieldId && value !== '') {
-          mappedData[`field_${fieldId}`] = value;
-          hasValidData = true;
-        }
-      }
-    });
-
-    if (hasValidData && Object.keys(mappedData).length > 0) {
-      allRecords.push(mappedData);
-      attempted++;
-    }
-  }
-  // Split records into batches of 200
-  const batches: any[][] = [];
-  for (let i = 0; i < allRecords.length; i += BATCH_SIZE) {
-    batches.push(allRecords.slice(i, i + BATCH_SIZE));
-  }
+  const { prepared: allRecords, invalidRecords, flaggedRecords, emailFindings } = prepareImportRecords(records, composeTargetValues, validationRules, emailColumns, targetFields);
+  const attempted = allRecords.length;
+  // Split records into batches of 200 (rows matching an existing row are updated in upsert mode)
+  const { toCreate, toUpdate, unchanged, merged } = splitUpsertRecords(allRecords, upsertIndex);
+  // Records merged into a new row of the same key count as updates of that row
+  updated += merged;
+  const batches = buildWriteBatches(toCreate, toUpdate, BATCH_SIZE);
+  const pendingBatches = getPendingBatchIndexes(batches, importJob);
+  created += dropWrittenRecords(batches, pendingBatches, resumeIndex);
+  const skippedBatches = batches.length - pendingBatches.length;
   // Process batches in parallel groups
-  for (let i = 0; i < batches.length; i += PARALLEL_BATCHES) {
+  for (let i = 0; i < pendingBatches.length; i += PARALLEL_BATCHES) {
     // Check for cancellation
     if (IMPORT_ABORT_CONTROLLER?.signal.aborted) {
       throw new Error('Import cancelled by user');
@@ -1771,33 +2118,36 @@ const processVeryLargeFileData = async (
     }
 
     // Get the next group of batches to process in parallel
-    const currentBatchGroup = batches.slice(i, i + PARALLEL_BATCHES);
-    const batchPromises = currentBatchGroup.map(async (batch, batchIndex) => {
-      const globalBatchIndex = i + batchIndex + 1;
+    const currentBatchIndexes = pendingBatches.slice(i, i + PARALLEL_BATCHES);
+    const batchPromises = currentBatchIndexes.map(async batchIndex => {
+      const batch = batches[batchIndex];
+      let result: { success: number, failed: number, failedRecords: FailedRecord[] };
       try {
-        const batchResults = await processBatchRecords(batch, tableId, jwtToken);
-        return batchResults;
+        result = await processWriteBatch(batch, tableId, jwtToken);
       } catch (error) {
-        return { 
+        result = { 
           success: 0, 
-          failed: batch.length, 
-          failedRecords: batch.map(record => ({ data: record, error: error instanceof Error ? error.message : 'Unknown error' }))
+          failed: batch.records.length, 
+          failedRecords: batch.records.map(record => toFailedRecord(record, error instanceof Error ? error.message : 'Unknown error'))
         };
       }
-    });
 
-    // Wait for all batches in this group to complete
-    const groupResults = await Promise.all(batchPromises);
-    
-    // Aggregate results
-    for (const result of groupResults) {
-      created += result.success;
+      // Aggregate results and confirm each batch as soon as it is written, not only when its group is done
+      if (batch.operation === 'update') {
+        updated += result.success;
+      } else {
+        created += result.success;
+      }
       totalFailed += result.failed;
       allFailedRecords.push(...result.failedRecords);
-    }
+      await saveImportCheckpoint(importJob, [batchIndex], { created, updated, unchanged, failed: totalFailed, failedRecords: allFailedRecords });
+    });
+
+    // Wait for all batches in this group to complete
+    await Promise.all(batchPromises);
 
     // Calculate progress and performance
-    const processedRecords = created + totalFailed;
+    const processedRecords = unchanged + created + updated + totalFailed;
     const percentage = (processedRecords / allRecords.length) * 100;
     const elapsedTime = (performance.now() - startTime) / 1000;
     const recordsPerSecond = processedRecords / Math.max(elapsedTime, 1);
@@ -1812,127 +2162,107 @@ const processVeryLargeFileData = async (
         remaining: remaining,
         speed: Math.round(recordsPerSecond),
         estimatedTimeRemaining: Math.round(estimatedRemainingTime),
-        currentBatch: Math.min(i + PARALLEL_BATCHES, batches.length),
+        currentBatch: skippedBatches + Math.min(i + PARALLEL_BATCHES, pendingBatches.length),
         totalBatches: batches.length,
         failed: totalFailed,
+        invalid: invalidRecords.length,
+        flagged: flaggedRecords.length,
         processing: 'bulk'
       });
     }
 
     // Brief pause between parallel groups to be API-friendly
-    if (i + PARALLEL_BATCHES < batches.length) {
+    if (i + PARALLEL_BATCHES < pendingBatches.length) {
       await new Promise(resolve => setTimeout(resolve, PERFORMANCE_CONFIG.PAUSE_BETWEEN_GROUPS));
     }
   }
 
   const endTime = performance.now();
   const totalTime = (endTime - startTime) / 1000;
-  return { attempted, created, failed: totalFailed, failedRecords: allFailedRecords };
+  return { attempted, created, updated, unchanged, failed: totalFailed, failedRecords: allFailedRecords, invalidRecords, flaggedRecords, emailFindings };
 };
 
 // Standard processing for smaller files
 const processStandardFileData = async (
-  lines: string[], 
+  records: CsvRecord[], 
   headers: string[], 
   mappings: Record<string, string>, 
+  columnRules: ColumnRules,
+  validationRules: ValidationRule[],
   mappedColumns: string[], 
-  fieldMappings: Record<string, number>, 
+  targetFields: Record<string, TargetField>, 
   tableId: string, 
   jwtToken: string,
-  progressCallback?: (progress: ProgressInfo) => void
-): Promise<{ attempted: number, created: number, failed: number, failedRecords: any[] }> => {
-  const recordsToCreate = [];
-  let attempted = 0;
+  progressCallback?: (progress: ProgressInfo) => void,
+  upsertIndex?: UpsertIndex,
+  resumeIndex?: ResumeIndex,
+  importJob?: ImportJob
+): Promise<ImportBatchResults> => {
+  const composeTargetValues = createTargetComposer(headers, mappings, columnRules);
+  const emailColumns = getEmailColumns(headers, mappings, columnRules, targetFields);
+  const { prepared: preparedRecords, invalidRecords, flaggedRecords, emailFindings } = prepareImportRecords(records, composeTargetValues, validationRules, emailColumns, targetFields);
+  const attempted = preparedRecords.length;
+  // Write records in batches with correct batch size for Baserow API
+  // Baserow batch API limit is 200 records per batch
+  const BATCH_SIZE = 200; // Fixed: Baserow's batch API maximum
+  const { toCreate, toUpdate, unchanged, merged } = splitUpsertRecords(preparedRecords, upsertIndex);
+  const batches = buildWriteBatches(toCreate, toUpdate, BATCH_SIZE);
+  const pendingBatches = getPendingBatchIndexes(batches, importJob);
+  // A resumed import continues with the totals of the confirmed batches
+  let created = (importJob?.created || 0) + dropWrittenRecords(batches, pendingBatches, resumeIndex);
+  // Records merged into a new row of the same key count as updates of that row
+  let updated = (importJob?.updated || 0) + merged;
+  let totalFailed = importJob?.failed || 0;
+  const allFailedRecords: FailedRecord[] = [...(importJob?.failedRecords || [])];
   
-  for (let i = 1; i < lines.length; i++) {
-    // Check for cancellation
-    if (IMPORT_ABORT_CONTROLLER?.signal.aborted) {
-      throw new Error('Import cancelled by user');
-    }
-    
-    const line = lines[i].trim();
-
-    if (!line || /^["',\s]*$/.test(line)) {
+  for (let i = 0; i < batches.length; i++) {
+    if (!pendingBatches.includes(i)) {
       continue;
     }
-
-    const values = parseCSVLine(line);
-    
-    if (values.every(v => !v || (typeof v === 'string' && v.trim() === ''))) {
-      continue;
-    }
-
-    const mappedData: any = {};
-
-    headers.forEach((header, index) => {
-      const cleanHeader = header.trim().replace(/"/g, '');
-      const targetColumn = mappings[cleanHeader];
-
-      if (targetColumn && targetColumn !== 'ignore' && values[index] !== undefined) {
-        const fieldId = fieldMappings[targetColumn];
-        
-        // Safety check for missing field mappings
-        if (fieldId === undefined) {
-          return;
-        }
-        
-        const value = typeof values[index] === 'string' ? values[index].trim() : values[index];
-
-        if (fieldId && value !== '') {
-          mappedData[`field_${fieldId}`] = value;
-        }
-      }
-    });
-
-    if (Object.keys(mappedData).length > 0) {
-      recordsToCreate.push(mappedData);
-      attempted++;
+    const batch = batches[i];
+    const batchResults = await processWriteBatch(batch, tableId, jwtToken);
+    if (batch.operation === 'update') {
+      updated += batchResults.success;
+    } else {
+      created += batchResults.success;
     }
-  }
-  // Create records in batches with correct batch size for Baserow API
-  // Baserow batch API limit is 200 records per batch
-  const BATCH_SIZE = 200; // Fixed: Baserow's batch API maximum
-  let created = 0;
-  let totalFailed = 0;
-  const allFailedRecords: any[] = [];
-  
-  for (let i = 0; i < recordsToCreate.length; i += BATCH_SIZE) {
-    const batch = recordsToCreate.slice(i, i + BATCH_SIZE);
-    const batchResults = await processBatchRecords(batch, tableId, jwtToken);
-    created += batchResults.success;
     totalFailed += batchResults.failed;
     allFailedRecords.push(...batchResults.failedRecords);
+    await saveImportCheckpoint(importJob, [i], { created, updated, unchanged, failed: totalFailed, failedRecords: allFailedRecords });
     
-    const percentage = ((created / recordsToCreate.length) * 100);
+    const written = unchanged + created + updated;
+    const percentage = ((written / preparedRecords.length) * 100);
     // Call progress callback with detailed information
     if (progressCallback) {
-      const remaining = recordsToCreate.length - created;
-      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-      const totalBatches = Math.ceil(recordsToCreate.length / BATCH_SIZE);
+      const remaining = preparedRecords.length - written;
+      const batchNumber = i + 1;
+      const totalBatches = batches.length;
       
       progressCallback({
-        current: created,
-        total: recordsToCreate.length,
+        current: written,
+        total: preparedRecords.length,
         percentage: Math.round(percentage),
         remaining: remaining,
         currentBatch: batchNumber,
         totalBatches: totalBatches,
         failed: totalFailed,
+        invalid: invalidRecords.length,
+        flagged: flaggedRecords.length,
         processing: 'standard'
       });
     }
     
     // Ultra-fast processing - minimal delay between batches
-    if (i + BATCH_SIZE < recordsToCreate.length) {
+    if (i + 1 < batches.length) {
       // Only delay if bulk operations are failing frequently
-      if (totalFailed > 0 && (totalFailed / (i + BATCH_SIZE)) > 0.1) {
+      if (totalFailed > 0 && (totalFailed / ((i + 1) * BATCH_SIZE)) > 0.1) {
         await new Promise(resolve => setTimeout(resolve, 25)); // Slow down only if high failure rate
       }
       // No delay for successful bulk operations - maximum speed!
     }
   }
 
-  return { attempted, created, failed: totalFailed, failedRecords: allFailedRecords };
+  return { attempted, created, updated, unchanged, failed: totalFailed, failedRecords: allFailedRecords, invalidRecords, flaggedRecords, emailFindings };
 };
 
 // Global flag to track bulk operation failures and batch size  
@@ -1940,8 +2270,276 @@ let BULK_OPERATIONS_DISABLED = false;
 let BULK_FAILURE_COUNT = 0;
 let CURRENT_BATCH_SIZE = 200; // Start with Baserow's documented limit
 
+// A mapped row ready to be sent to Baserow, together with its origin in the file
+interface PreparedRecord {
+  lineNumber: number;
+  values: string[]; // Original CSV values, used for the error report
+  data: Record<string, any>;
+}
+
+// A row Baserow rejected, kept for the error report and to retry it
+export interface FailedRecord {
+  lineNumber: number;
+  values: string[];
+  data: Record<string, any>;
+  error: string;
+}
+
+// Attach the original line number to error messages so users can find the row in their file
+const toFailedRecord = (record: PreparedRecord, error: string): FailedRecord => ({
+  lineNumber: record.lineNumber,
+  values: record.values,
+  data: record.data,
+  error: `Zeile ${record.lineNumber}: ${error}`
+});
+
+interface ImportBatchResults {
+  attempted: number;
+  created: number;
+  updated: number;
+  unchanged: number; // Matched an existing row without any changed value (upsert mode)
+  failed: number;
+  failedRecords: FailedRecord[];
+  invalidRecords: ValidationFinding[]; // Left out because they broke an error rule
+  flaggedRecords: ValidationFinding[]; // Imported with a warning
+  emailFindings: EmailFinding[]; // Invalid, role and disposable addresses of the imported rows
+}
+
+// Existing rows of the target table indexed by the values of the key columns (upsert mode)
+interface UpsertIndex {
+  keyFields: string[]; // field_{id} keys of the key columns
+  rows: Map<string, Record<string, unknown>>;
+}
+
+// Records are either created or, in upsert mode, sent as update of an existing row
+interface WriteBatch {
+  operation: 'create' | 'update';
+  records: PreparedRecord[];
+}
+
+// Compare field values independent of their API representation (select options by id)
+const normalizeFieldValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(normalizeFieldValue).sort().join('|');
+  if (typeof value === 'object') {
+    const option = value as { id?: unknown, value?: unknown };
+    return String(option.id ?? option.value ?? '');
+  }
+  return String(value).trim();
+};
+
+// Key of a row or record; null when all key values are empty so the record is always created
+const getRecordKey = (data: Record<string, unknown>, keyFields: string[]): string | null => {
+  const parts = keyFields.map(field => normalizeFieldValue(data[field]).toLowerCase());
+  return parts.every(part => part === '') ? null : JSON.stringify(parts);
+};
+
+const buildUpsertIndex = (rows: Record<string, unknown>[], keyFields: string[]): UpsertIndex => {
+  const index: UpsertIndex = { keyFields, rows: new Map() };
+  rows.forEach(row => {
+    const key = getRecordKey(row, keyFields);
+    // The oldest row wins when the table already contains the key more than once
+    if (key !== null && !index.rows.has(key)) {
+      index.rows.set(key, row);
+    }
+  });
+  return index;
+};
+
+// Split prepared records into rows to create, rows to update (only the changed fields) and unchanged rows.
+// Records repeating the key of a new row are merged into it (later values win), so the key is created once.
+const splitUpsertRecords = (
+  records: PreparedRecord[],
+  upsertIndex?: UpsertIndex
+): { toCreate: PreparedRecord[], toUpdate: PreparedRecord[], unchanged: number, merged: number } => {
+  if (!upsertIndex) {
+    return { toCreate: records, toUpdate: [], unchanged: 0, merged: 0 };
+  }
+
+  const toCreate: PreparedRecord[] = [];
+  const toUpdate: PreparedRecord[] = [];
+  const createdKeys = new Map<string, number>(); // Key -> index in toCreate
+  let unchanged = 0;
+  let merged = 0;
+
+  records.forEach(record => {
+    const key = getRecordKey(record.data, upsertIndex.keyFields);
+    const existingRow = key !== null ? upsertIndex.rows.get(key) : undefined;
+    if (!existingRow) {
+      const createdIndex = key !== null ? createdKeys.get(key) : undefined;
+      if (createdIndex !== undefined) {
+        const earlier = toCreate[createdIndex];
+        toCreate[createdIndex] = { ...record, data: { ...earlier.data, ...record.data } };
+        merged++;
+        return;
+      }
+      if (key !== null) {
+        createdKeys.set(key, toCreate.length);
+      }
+      toCreate.push(record);
+      return;
+    }
+
+    const changes: Record<string, unknown> = {};
+    Object.entries(record.data).forEach(([field, value]) => {
+      if (normalizeFieldValue(value) !== normalizeFieldValue(existingRow[field])) {
+        changes[field] = value;
+      }
+    });
+
+    if (Object.keys(changes).length === 0) {
+      unchanged++;
+    } else {
+      toUpdate.push({ ...record, data: { id: existingRow.id, ...changes } });
+    }
+  });
+
+  return { toCreate, toUpdate, unchanged, merged };
+};
+
+// Rows an interrupted create or append import already wrote, counted by their content
+interface ResumeIndex {
+  fields: string[]; // field_{id} keys of the imported columns
+  rows: Map<string, number>;
+}
+
+// Content of a row or record; Baserow returns false for empty boolean cells that records leave out
+const getContentKey = (data: Record<string, unknown>, fields: string[]): string => {
+  return JSON.stringify(fields.map(field => (data[field] === false ? '' : normalizeFieldValue(data[field]))));
+};
+
+// Rows are listed in the order they were created, so the rows after the ones that existed
+// before the import are the ones it wrote
+const buildResumeIndex = (rows: Record<string, unknown>[], existingRowCount: number, fields: string[]): ResumeIndex => {
+  const index: ResumeIndex = { fields, rows: new Map() };
+  rows.slice(existingRowCount).forEach(row => {
+    const key = getContentKey(row, fields);
+    index.rows.set(key, (index.rows.get(key) || 0) + 1);
+  });
+  return index;
+};
+
+// Leave out the records of pending batches that the interrupted import wrote after its last checkpoint.
+// Rows of the confirmed batches are accounted for first; each remaining row accounts for one record.
+const dropWrittenRecords = (batches: WriteBatch[], pendingBatches: number[], resumeIndex?: ResumeIndex): number => {
+  if (!resumeIndex) return 0;
+
+  const takeRow = (record: PreparedRecord) => {
+    const key = getContentKey(record.data, resumeIndex.fields);
+    const count = resumeIndex.rows.get(key) || 0;
+    if (count === 0) return false;
+    resumeIndex.rows.set(key, count - 1);
+    return true;
+  };
+
+  const pending = new Set(pendingBatches);
+  batches.forEach((batch, index) => {
+    if (batch.operation === 'create' && !pending.has(index)) {
+      batch.records.forEach(takeRow);
+    }
+  });
+
+  let written = 0;
+  pendingBatches.forEach(index => {
+    const batch = batches[index];
+    if (batch.operation !== 'create') return;
+    const records = batch.records.filter(record => !takeRow(record));
+    written += batch.records.length - records.length;
+    batches[index] = { ...batch, records };
+  });
+  return written;
+};
+
+const buildWriteBatches = (toCreate: PreparedRecord[], toUpdate: PreparedRecord[], batchSize: number): WriteBatch[] => {
+  const batches: WriteBatch[] = [];
+  for (let i = 0; i < toUpdate.length; i += batchSize) {
+    batches.push({ operation: 'update', records: toUpdate.slice(i, i + batchSize) });
+  }
+  for (let i = 0; i < toCreate.length; i += batchSize) {
+    batches.push({ operation: 'create', records: toCreate.slice(i, i + batchSize) });
+  }
+  return batches;
+};
+
+// Batches still to write; a resumed import skips the ones confirmed before the interruption
+const getPendingBatchIndexes = (batches: WriteBatch[], importJob?: ImportJob): number[] => {
+  if (importJob) {
+    importJob.totalBatches = batches.length;
+  }
+  const completed = new Set(importJob?.completedBatches || []);
+  return batches.map((_, index) => index).filter(index => !completed.has(index));
+};
+
+// Persist the confirmed batches and running totals of the import job
+const saveImportCheckpoint = async (
+  importJob: ImportJob | undefined,
+  batchIndexes: number[],
+  totals: Partial<Pick<ImportJob, 'created' | 'updated' | 'unchanged' | 'failed' | 'failedRecords'>> = {}
+) => {
+  if (!importJob) return;
+  importJob.completedBatches.push(...batchIndexes);
+  Object.assign(importJob, totals);
+  try {
+    await fileStorage.saveJob(importJob);
+  } catch (error) {
+    // A missing checkpoint only means the import cannot be resumed; the import itself continues
+  }
+};
+
+const processWriteBatch = async (batch: WriteBatch, tableId: string, jwtToken: string): Promise<{ success: number, failed: number, failedRecords: FailedRecord[] }> => {
+  // A batch whose records were all written before an interruption has nothing left to send
+  if (batch.records.length === 0) {
+    return { success: 0, failed: 0, failedRecords: [] };
+  }
+  return batch.operation === 'update'
+    ? processBatchUpdates(batch.records, tableId)
+    : processBatchRecords(batch.records, tableId, jwtToken);
+};
+
+// Update existing rows through the batch endpoint, falling back to single row updates
+// so one invalid value does not fail the whole batch
+const processBatchUpdates = async (batch: PreparedRecord[], tableId: string): Promise<{ success: number, failed: number, failedRecords: FailedRecord[] }> => {
+  const bulkResponse = await makeApiCall(`/database/rows/table/${tableId}/batch/`, {
+    method: 'PATCH',
+    body: JSON.stringify({ items: batch.map(record => record.data) }),
+  });
+
+  if (bulkResponse.ok) {
+    return { success: batch.length, failed: 0, failedRecords: [] };
+  }
+
+  let successCount = 0;
+  const failedRecords: FailedRecord[] = [];
+  const results = await Promise.all(batch.map(async record => {
+    const { id, ...changes } = record.data;
+    try {
+      const response = await makeApiCall(`/database/rows/table/${tableId}/${id}/`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        return { record, error: `HTTP ${response.status}: ${errorText}` };
+      }
+      return { record, error: null };
+    } catch (error) {
+      return { record, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }));
+
+  results.forEach(result => {
+    if (result.error === null) {
+      successCount++;
+    } else {
+      failedRecords.push(toFailedRecord(result.record, result.error));
+    }
+  });
+
+  return { success: successCount, failed: failedRecords.length, failedRecords };
+};
+
 // Process a batch of records with enhanced token management
-const processBatchRecords = async (batch: any[], tableId: string, jwtToken: string): Promise<{ success: number, failed: number, failedRecords: any[] }> => {
+const processBatchRecords = async (batch: PreparedRecord[], tableId: string, jwtToken: string): Promise<{ success: number, failed: number, failedRecords: FailedRecord[] }> => {
   // Always ensure we have a fresh token for batch operations
   let currentToken: string;
   try {
@@ -1955,8 +2553,9 @@ const processBatchRecords = async (batch: any[], tableId: string, jwtToken: stri
     // Try bulk creation first (much faster)
     try {
       // First, try with user_field_names: true (might allow column names instead of field_IDs)
+      const items = batch.map(record => record.data);
       let bulkPayload = {
-        items: batch,
+        items,
         user_field_names: true
       };
       
@@ -2003,7 +2602,7 @@ const processBatchRecords = async (batch: any[], tableId: string, jwtToken: stri
         }
         
         // Try without user_field_names flag
-        bulkPayload = { items: batch, user_field_names: false };
+        bulkPayload = { items, user_field_names: false };
         
         const retryResponse = await makeApiCall(`/database/rows/table/${tableId}/batch/`, {
           method: 'POST',
@@ -2047,17 +2646,17 @@ const processBatchRecords = async (batch: any[], tableId: string, jwtToken: stri
   const CONCURRENT_REQUESTS = 150; // Ultra-high concurrency for maximum speed - browser limit ~150-200
   let successCount = 0;
   let failedCount = 0;
-  const failedRecords: any[] = [];
+  const failedRecords: FailedRecord[] = [];
   
   // Process records in concurrent groups
   for (let i = 0; i < batch.length; i += CONCURRENT_REQUESTS) {
     const concurrentBatch = batch.slice(i, i + CONCURRENT_REQUESTS);
     
-    const promises = concurrentBatch.map((recordData, index) => 
-      createRecordInNewTable(tableId, recordData, currentToken) // Use fresh token
-        .then(() => ({ success: true, recordData: null, error: null }))
+    const promises = concurrentBatch.map((record, index) => 
+      createRecordInNewTable(tableId, record.data, currentToken) // Use fresh token
+        .then(() => ({ success: true, record, error: null }))
         .catch(error => {
-          return { success: false, recordData, error: error.message };
+          return { success: false, record, error: error.message };
         })
     );
     
@@ -2068,10 +2667,7 @@ const processBatchRecords = async (batch: any[], tableId: string, jwtToken: stri
         successCount++;
       } else {
         failedCount++;
-        failedRecords.push({
-          data: result.recordData,
-          error: result.error || 'Unknown error'
-        });
+        failedRecords.push(toFailedRecord(result.record, result.error || 'Unknown error'));
       }
     });
     
@@ -2083,8 +2679,118 @@ const processBatchRecords = async (batch: any[], tableId: string, jwtToken: stri
   return { success: successCount, failed: failedCount, failedRecords };
 };
 
-// Get field mappings (column name to field ID) after table setup
-const getFieldMappings = async (tableId: string, columnNames: string[]): Promise<Record<string, number>> => {
+// A created Baserow field together with the spec used to convert values for it
+interface TargetField {
+  id: number;
+  spec: FieldSpec;
+  selectOptionIds: Record<string, number>; // Option text to option id for select fields
+}
+
+// Sample the values of each mapped column and propose a field type for it
+const profileMappedColumns = (
+  records: CsvRecord[],
+  headers: string[],
+  mappings: Record<string, string>,
+  columnRules: ColumnRules,
+  mappedColumns: string[],
+  fields: FieldSpec[] = []
+): FieldSpec[] => {
+  // Profile the composed values, so merged columns are typed by what is actually stored
+  const composeTargetValues = createTargetComposer(headers, mappings, columnRules);
+  const composedRecords = records.map(record => composeTargetValues(record.values));
+  return mappedColumns.map(targetColumn => {
+    const values = composedRecords.map(composed => composed[targetColumn] ?? '');
+    // A type chosen on the mapping page wins over the profiled one
+    const chosen = fields.find(field => field.name === targetColumn);
+    if (chosen) {
+      return completeSelectOptions(chosen, values);
+    }
+    return profileColumn(targetColumn, values);
+  });
+};
+
+// Prepare an existing table for an append: mapped columns that exist keep the table's field type,
+// missing ones are created with the chosen or profiled type
+const prepareExistingTable = async (
+  tableId: string,
+  records: CsvRecord[],
+  headers: string[],
+  mappings: Record<string, string>,
+  columnRules: ColumnRules,
+  mappedColumns: string[],
+  fields: FieldSpec[] = [],
+  createMissingColumns: boolean = true
+): Promise<{ tableName: string, fieldSpecs: FieldSpec[] }> => {
+  const tables = await listTablesInDatabase();
+  const table = tables.find(candidate => String(candidate.id) === tableId);
+  if (!table) {
+    throw new Error(`Die Zieltabelle ${tableId} wurde nicht gefunden.`);
+  }
+
+  const response = await makeJWTApiCall(`/database/fields/table/${tableId}/`, {
+    method: 'GET'
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch target table fields: ${errorText}`);
+  }
+  const existingFields: BaserowField[] = await response.json();
+
+  const config = getApiConfig();
+  const jwtToken = config.isProxyEnabled ? 'PROXY_HANDLED' : await getJWTToken();
+  const fieldSpecs: FieldSpec[] = [];
+
+  for (const spec of profileMappedColumns(records, headers, mappings, columnRules, mappedColumns, fields)) {
+    const existingField = existingFields.find(field => field.name === spec.name);
+    if (existingField) {
+      if (!isWritableFieldType(existingField.type)) {
+        throw new Error(`Die Spalte "${spec.name}" wird von Baserow berechnet (${existingField.type}) und kann nicht importiert werden.`);
+      }
+      // The table decides the type, the file how its numbers and dates are written
+      fieldSpecs.push({ ...fromBaserowField(existingField), locale: spec.locale });
+    } else {
+      // A dry run only reports the column that would be created
+      if (createMissingColumns) {
+        await createTableColumn(tableId, spec, jwtToken);
+      }
+      fieldSpecs.push(spec);
+    }
+  }
+
+  return { tableName: table.name, fieldSpecs };
+};
+
+// Number of rows in a table, read from the count of a one-row page
+const countTableRows = async (tableId: string): Promise<number> => {
+  const response = await makeApiCall(`/database/rows/table/${tableId}/?size=1`);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to count table rows: ${errorText}`);
+  }
+  const data = await response.json();
+  return data.count || 0;
+};
+
+// All rows of a table, page by page until Baserow reports no next page (pages hold at most 200 rows)
+const fetchAllTableRows = async (tableId: string): Promise<Record<string, unknown>[]> => {
+  const PAGE_SIZE = 200;
+  const rows: Record<string, unknown>[] = [];
+  for (let page = 1; ; page++) {
+    const response = await makeApiCall(`/database/rows/table/${tableId}/?page=${page}&size=${PAGE_SIZE}`);
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to fetch table rows: ${errorText}`);
+    }
+    const data = await response.json();
+    rows.push(...(data.results || []));
+    if (!data.next) {
+      return rows;
+    }
+  }
+};
+
+// Get the created fields (column name to field ID and select options) after table setup
+const getTargetFields = async (tableId: string, fieldSpecs: FieldSpec[]): Promise<Record<string, TargetField>> => {
   try {
     const response = await makeJWTApiCall(`/database/fields/table/${tableId}/`, {
       method: 'GET'
@@ -2096,73 +2802,132 @@ const getFieldMappings = async (tableId: string, columnNames: string[]): Promise
     }
 
     const fields = await response.json();
-    const mappings: Record<string, number> = {};
+    const targetFields: Record<string, TargetField> = {};
     
     // Map column names to field IDs
-    fields.forEach((field: any) => {
-      if (columnNames.includes(field.name)) {
-        mappings[field.name] = field.id;
-      }
+    fieldSpecs.forEach(spec => {
+      const field = fields.find((candidate: any) => candidate.name === spec.name);
+      if (!field) return;
+      const selectOptionIds: Record<string, number> = {};
+      (field.select_options || []).forEach((option: any) => {
+        selectOptionIds[option.value] = option.id;
+      });
+      targetFields[spec.name] = { id: field.id, spec, selectOptionIds };
     });
     // Verify we have mappings for all columns
-    const missingMappings = columnNames.filter(col => !mappings[col]);
+    const missingMappings = fieldSpecs.filter(spec => !targetFields[spec.name]).map(spec => spec.name);
     if (missingMappings.length > 0) {
       throw new Error(`Missing field mappings for columns: ${missingMappings.join(', ')}`);
     }
     
-    return mappings;
+    return targetFields;
   } catch (error) {
     throw error;
   }
 };
 
-// Helper function to properly parse CSV lines with improved handling for large files
-const parseCSVLine = (line: string): string[] => {
-  // Handle empty lines
-  if (!line || line.trim() === '') {
-    return [];
-  }
-  
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let i = 0;
-  
-  while (i < line.length) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-    
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        // Escaped quote
-        current += '"';
-        i += 2;
-        continue;
-      } else {
-        // Start or end of quoted field
-        inQuotes = !inQuotes;
-        i++;
-        continue;
-      }
+// Map the composed values of one CSV record to Baserow field values, converted to each field's type.
+// Values that cannot be converted are sent as-is so Baserow reports them as failed rows.
+const buildRecordData = (
+  composed: Record<string, string>,
+  targetFields: Record<string, TargetField>
+): Record<string, any> => {
+  const mappedData: Record<string, any> = {};
+
+  Object.entries(composed).forEach(([targetColumn, value]) => {
+    // Safety check for missing field mappings
+    const targetField = targetFields[targetColumn];
+    if (!targetField) {
+      return;
     }
-    
-    if (char === ',' && !inQuotes) {
-      // Field separator
-      result.push(current.trim());
-      current = '';
-      i++;
+
+    const converted = convertValue(value, targetField.spec);
+    let fieldValue: any = converted.value;
+    if (converted.valid && targetField.spec.type === 'single_select') {
+      fieldValue = targetField.selectOptionIds[converted.value as string] ?? converted.value;
+    } else if (converted.valid && targetField.spec.type === 'multiple_select') {
+      fieldValue = (converted.value as string[]).map(item => targetField.selectOptionIds[item] ?? item);
+    }
+    mappedData[`field_${targetField.id}`] = fieldValue;
+  });
+
+  return mappedData;
+};
+
+// Target columns whose addresses are checked for the import summary: e-mail fields and
+// columns filled by the e-mail cleanup or an e-mail split
+const getEmailColumns = (
+  headers: string[],
+  mappings: Record<string, string>,
+  columnRules: ColumnRules,
+  targetFields: Record<string, TargetField>
+): string[] => {
+  const emailSources = [
+    ...Object.entries(columnRules.transforms || {})
+      .filter(([, steps]) => steps.some(step => step.type === 'email'))
+      .map(([source]) => source),
+    ...(columnRules.splits || []).filter(rule => rule.mode === 'email').map(rule => rule.source),
+  ];
+  return Object.entries(getTargetSources(headers, mappings, columnRules))
+    .filter(([target, sources]) => targetFields[target]?.spec.type === 'email' || sources.some(source => emailSources.includes(source)))
+    .map(([target]) => target);
+};
+
+// Compose, validate and convert the records of the file. Records breaking an error rule are
+// left out, records with a warning are sent; both are kept for the import report, as are
+// the flagged addresses of the e-mail columns.
+const prepareImportRecords = (
+  records: CsvRecord[],
+  composeTargetValues: (values: string[]) => Record<string, string>,
+  validationRules: ValidationRule[],
+  emailColumns: string[],
+  targetFields: Record<string, TargetField>
+): { prepared: PreparedRecord[], invalidRecords: ValidationFinding[], flaggedRecords: ValidationFinding[], emailFindings: EmailFinding[] } => {
+  const validateRow = createRowValidator(validationRules);
+  const prepared: PreparedRecord[] = [];
+  const invalidRecords: ValidationFinding[] = [];
+  const flaggedRecords: ValidationFinding[] = [];
+  const emailFindings: EmailFinding[] = [];
+
+  for (const record of records) {
+    // Check for cancellation
+    if (IMPORT_ABORT_CONTROLLER?.signal.aborted) {
+      throw new Error('Import cancelled by user');
+    }
+
+    // Skip if all values are empty
+    if (isEmptyRecord(record)) {
       continue;
     }
-    
-    // Regular character
-    current += char;
-    i++;
+
+    // Records whose mapped columns are all empty are skipped like empty ones
+    const composed = composeTargetValues(record.values);
+    if (Object.keys(composed).length === 0) {
+      continue;
+    }
+
+    const issues = validateRow(composed);
+    if (hasValidationErrors(issues)) {
+      invalidRecords.push({ lineNumber: record.lineNumber, values: record.values, issues });
+      continue;
+    }
+
+    // Map values to Baserow fields
+    const mappedData = buildRecordData(composed, targetFields);
+    if (Object.keys(mappedData).length > 0) {
+      prepared.push({ lineNumber: record.lineNumber, values: record.values, data: mappedData });
+      if (issues.length > 0) {
+        flaggedRecords.push({ lineNumber: record.lineNumber, values: record.values, issues });
+      }
+      emailColumns.forEach(column => {
+        checkEmailCell(composed[column] || '').forEach(({ address, flag }) => {
+          emailFindings.push({ lineNumber: record.lineNumber, column, address, flag });
+        });
+      });
+    }
   }
-  
-  // Add the last field
-  result.push(current.trim());
-  
-  return result;
+
+  return { prepared, invalidRecords, flaggedRecords, emailFindings };
 };
 
 // Enhanced record creation with robust token refresh
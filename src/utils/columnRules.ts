@@ -0,0 +1,294 @@
+/**
+ * Column rules of a mapping
+ * Composes the raw value of every target column from the source values of a record:
+ * several source columns mapped to the same target are joined in the configured order,
+ * and split rules spread one source column over several target columns.
+ * Transformations of a source column are applied before either; extra columns are filled last.
+ */
+
+import { TransformStep, createTransformer } from './transformations';
+import { ExtraColumn, evaluateExpression } from './extraColumns';
+import { parseEmailAddresses } from './emailAddresses';
+
+// Joins the source columns of one target column
+export interface MergeRule {
+  target: string;
+  sources: string[]; // Source columns in join order
+  separator: string;
+}
+
+export type SplitMode = 'delimiter' | 'regex' | 'name' | 'address' | 'email';
+
+// Spreads the parts of one source column over several target columns
+export interface SplitRule {
+  source: string;
+  mode: SplitMode;
+  pattern: string; // Delimiter or regular expression; unused by the built-in splitters
+  targets: string[]; // Target column per part, empty to leave the part out
+}
+
+// Rules applied on top of the plain source -> target mapping
+export interface ColumnRules {
+  merges?: MergeRule[];
+  splits?: SplitRule[];
+  transforms?: Record<string, TransformStep[]>; // Keyed by source column
+  extras?: ExtraColumn[]; // Resolved with the import context before records are composed
+}
+
+export const DEFAULT_MERGE_SEPARATOR = ' ';
+
+export const MERGE_SEPARATOR_OPTIONS = [
+  { value: ' ', label: 'Leerzeichen' },
+  { value: ', ', label: 'Komma' },
+  { value: '; ', label: 'Semikolon' },
+  { value: ' - ', label: 'Bindestrich' },
+  { value: '/', label: 'Schrägstrich' },
+  { value: '\n', label: 'Zeilenumbruch' },
+  { value: '', label: 'Ohne Trennzeichen' },
+];
+
+export const SPLIT_MODE_OPTIONS: Array<{ value: SplitMode, label: string }> = [
+  { value: 'name', label: 'Name (Anrede, Titel, Vorname, Nachname)' },
+  { value: 'address', label: 'Adresse (Straße, Hausnummer, PLZ, Ort)' },
+  { value: 'email', label: 'E-Mail-Adressen (eine je Spalte)' },
+  { value: 'delimiter', label: 'Trennzeichen' },
+  { value: 'regex', label: 'Regulärer Ausdruck' },
+];
+
+const NAME_PARTS = ['Anrede', 'Titel', 'Vorname', 'Nachname'];
+const ADDRESS_PARTS = ['Straße', 'Hausnummer', 'PLZ', 'Ort'];
+
+const SALUTATIONS = ['herr', 'frau', 'mr', 'mrs', 'ms', 'firma'];
+const ACADEMIC_TITLES = ['dr', 'prof', 'dipl', 'ing', 'mag', 'med', 'rer', 'nat', 'phil', 'jur', 'habil', 'mba', 'msc', 'bsc'];
+// Name particles that start the last name, e.g. "Ursula von der Leyen"
+const NAME_PARTICLES = ['von', 'van', 'de', 'der', 'den', 'zu', 'zum', 'zur', 'vom', 'di', 'da', 'del', 'le', 'la', 'ten', 'ter'];
+
+const isAcademicTitle = (token: string): boolean => {
+  const parts = token.toLowerCase().split(/[.-]+/).filter(Boolean);
+  return parts.length > 0 && parts.every(part => ACADEMIC_TITLES.includes(part));
+};
+
+// "Herr Dr. Max von Mustermann" or "Mustermann, Max" -> [Anrede, Titel, Vorname, Nachname]
+const splitName = (value: string): string[] => {
+  let tokens = value.split(/\s+/).filter(Boolean);
+
+  const salutation: string[] = [];
+  const titles: string[] = [];
+  while (tokens.length > 0) {
+    if (SALUTATIONS.includes(tokens[0].toLowerCase().replace(/\.$/, ''))) {
+      salutation.push(tokens.shift() as string);
+    } else if (isAcademicTitle(tokens[0])) {
+      titles.push(tokens.shift() as string);
+    } else {
+      break;
+    }
+  }
+
+  // "Nachname, Vorname" is turned around
+  const rest = tokens.join(' ');
+  const commaIndex = rest.indexOf(',');
+  if (commaIndex >= 0) {
+    return [salutation.join(' '), titles.join(' '), rest.slice(commaIndex + 1).trim(), rest.slice(0, commaIndex).trim()];
+  }
+
+  tokens = rest.split(' ').filter(Boolean);
+  if (tokens.length <= 1) {
+    return [salutation.join(' '), titles.join(' '), '', tokens.join('')];
+  }
+  const particleIndex = tokens.findIndex((token, index) => index > 0 && NAME_PARTICLES.includes(token.toLowerCase()));
+  const lastNameIndex = particleIndex > 0 ? particleIndex : tokens.length - 1;
+  return [salutation.join(' '), titles.join(' '), tokens.slice(0, lastNameIndex).join(' '), tokens.slice(lastNameIndex).join(' ')];
+};
+
+// "Musterstraße 12a, 10115 Berlin" or "10115 Berlin" -> [Straße, Hausnummer, PLZ, Ort]
+const splitAddress = (value: string): string[] => {
+  let street = value.trim();
+  let postalCode = '';
+  let city = '';
+
+  const postalMatch = street.match(/(?:^|[\s,]+)(?:D-)?(\d{5})\s+([^,\d][^,]*)$/);
+  if (postalMatch) {
+    postalCode = postalMatch[1];
+    city = postalMatch[2].trim();
+    street = street.slice(0, postalMatch.index).replace(/[\s,]+$/, '');
+  }
+
+  let houseNumber = '';
+  const numberMatch = street.match(/^(.*?\D)\s+(\d+\s*[a-zA-Z]?(?:\s*[-/]\s*\d+\s*[a-zA-Z]?)?)$/);
+  if (numberMatch) {
+    street = numberMatch[1].trim();
+    houseNumber = numberMatch[2].replace(/\s+/g, '');
+  }
+
+  return [street, houseNumber, postalCode, city];
+};
+
+// Number of capture groups of a regular expression, null when it is not valid
+export const getRegexGroupCount = (pattern: string): number | null => {
+  try {
+    return (new RegExp(`${pattern}|`).exec('') as RegExpExecArray).length - 1;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Names of the parts a split rule produces; also used as names of new target columns
+export const getSplitPartLabels = (rule: SplitRule): string[] => {
+  if (rule.mode === 'name') return NAME_PARTS;
+  if (rule.mode === 'address') return ADDRESS_PARTS;
+  if (rule.mode === 'email') return rule.targets.map((_, index) => (index === 0 ? 'E-Mail' : `E-Mail ${index + 1}`));
+  const count = rule.mode === 'regex' ? getRegexGroupCount(rule.pattern) || 0 : rule.targets.length;
+  return Array.from({ length: count }, (_, index) => `${rule.source} ${index + 1}`);
+};
+
+// Parts of one source value, one entry per part label
+export const splitValue = (value: string, rule: SplitRule): string[] => {
+  const trimmed = String(value ?? '').trim();
+  const partCount = getSplitPartLabels(rule).length;
+  let parts: string[] = [];
+
+  if (trimmed !== '') {
+    if (rule.mode === 'name') {
+      parts = splitName(trimmed);
+    } else if (rule.mode === 'address') {
+      parts = splitAddress(trimmed);
+    } else if (rule.mode === 'email') {
+      // Cleaned addresses; the last part keeps the addresses beyond the part count
+      const addresses = parseEmailAddresses(trimmed);
+      parts = [...addresses.slice(0, partCount - 1), addresses.slice(partCount - 1).join(', ')];
+    } else if (rule.mode === 'regex') {
+      // Invalid expressions leave every part empty; the mapping page reports them
+      const match = getRegexGroupCount(rule.pattern) !== null ? trimmed.match(new RegExp(rule.pattern)) : null;
+      parts = match ? match.slice(1).map(part => part ?? '') : [];
+    } else if (rule.pattern !== '') {
+      // The last part keeps the rest of the value
+      const pieces = trimmed.split(rule.pattern);
+      parts = [...pieces.slice(0, partCount - 1), pieces.slice(partCount - 1).join(rule.pattern)];
+    } else {
+      parts = [trimmed];
+    }
+  }
+
+  return Array.from({ length: partCount }, (_, index) => (parts[index] || '').trim());
+};
+
+const cleanHeader = (header: string): string => header.trim().replace(/"/g, '');
+
+// All target columns that receive values, from the mapping and from split rules
+export const getMappedTargetColumns = (mappings: Record<string, string>, rules: ColumnRules = {}): string[] => {
+  const splitTargets = (rules.splits || []).flatMap(rule => rule.targets);
+  const extraTargets = (rules.extras || []).map(column => column.name);
+  return [...new Set([...Object.values(mappings), ...splitTargets, ...extraTargets].filter(target => target && target !== 'ignore'))];
+};
+
+// Source columns of each target column, ordered by its merge rule or else by file order;
+// a split source column is listed for every target column one of its parts goes to
+export const getTargetSources = (
+  headers: string[],
+  mappings: Record<string, string>,
+  rules: ColumnRules = {}
+): Record<string, string[]> => {
+  const sources: Record<string, string[]> = {};
+  const addSource = (target: string, source: string) => {
+    if (!(sources[target] || []).includes(source)) {
+      sources[target] = [...(sources[target] || []), source];
+    }
+  };
+  headers.forEach(header => {
+    const source = cleanHeader(header);
+    const target = mappings[source];
+    if (target && target !== 'ignore') {
+      addSource(target, source);
+    }
+    (rules.splits || [])
+      .filter(rule => rule.source === source)
+      .forEach(rule => rule.targets.filter(Boolean).forEach(splitTarget => addSource(splitTarget, source)));
+  });
+
+  (rules.merges || []).forEach(rule => {
+    const mapped = sources[rule.target];
+    if (!mapped) return;
+    const ordered = rule.sources.filter(source => mapped.includes(source));
+    sources[rule.target] = [...ordered, ...mapped.filter(source => !ordered.includes(source))];
+  });
+
+  return sources;
+};
+
+// Build a function that returns the raw value of every target column for one record;
+// empty values are left out. Sources, transformations, splits and separators are resolved once for all records.
+export const createTargetComposer = (
+  headers: string[],
+  mappings: Record<string, string>,
+  rules: ColumnRules = {}
+): ((values: string[]) => Record<string, string>) => {
+  const indexes: Record<string, number> = {};
+  headers.forEach((header, index) => {
+    indexes[cleanHeader(header)] = index;
+  });
+
+  const splits = (rules.splits || []).filter(rule => indexes[rule.source] !== undefined);
+  const transformers: Record<string, (value: string) => string> = Object.fromEntries(
+    Object.entries(rules.transforms || {}).map(([source, steps]) => [source, createTransformer(steps)])
+  );
+  const readSource = (values: string[], source: string): string => {
+    const value = String(values[indexes[source]] ?? '');
+    return (transformers[source] ? transformers[source](value) : value).trim();
+  };
+
+  // Each target value is read from source values or from parts of split source values
+  type PartReader = (values: string[], splitParts: string[][]) => string;
+  const targets = Object.entries(getTargetSources(headers, mappings, rules)).map(([target, sources]) => {
+    const readers: PartReader[] = [];
+    sources.forEach(source => {
+      if (mappings[source] === target) {
+        readers.push(values => readSource(values, source));
+      }
+      splits.forEach((rule, splitIndex) => {
+        if (rule.source !== source) return;
+        rule.targets.forEach((splitTarget, partIndex) => {
+          if (splitTarget === target) {
+            readers.push((_, splitParts) => splitParts[splitIndex][partIndex] || '');
+          }
+        });
+      });
+    });
+    return {
+      target,
+      readers,
+      separator: rules.merges?.find(rule => rule.target === target)?.separator ?? DEFAULT_MERGE_SEPARATOR,
+    };
+  });
+
+  const extras = (rules.extras || []).filter(column => column.name);
+  const cleanHeaders = headers.map(cleanHeader);
+
+  return (values: string[]) => {
+    const splitParts = splits.map(rule => splitValue(readSource(values, rule.source), rule));
+    const composed: Record<string, string> = {};
+    targets.forEach(({ target, readers, separator }) => {
+      const value = readers
+        .map(read => read(values, splitParts))
+        .filter(part => part !== '')
+        .join(separator);
+      if (value !== '') {
+        composed[target] = value;
+      }
+    });
+
+    // Expressions see the target columns and, for names not mapped, the source columns of the row
+    let rowValues: Record<string, string> | null = null;
+    extras.forEach(column => {
+      if (column.source === 'expression' && !rowValues) {
+        rowValues = Object.fromEntries(cleanHeaders.map((header, index) => [header, String(values[index] ?? '').trim()]));
+      }
+      const value = column.source === 'expression'
+        ? evaluateExpression(column.value, { ...rowValues, ...composed })
+        : column.source === 'constant' ? column.value.trim() : '';
+      if (value !== '') {
+        composed[column.name] = value;
+      }
+    });
+    return composed;
+  };
+};
@@ -0,0 +1,106 @@
+/**
+ * Content-based column matching
+ * Recognises what a column contains from its sample values (e-mail addresses, phone numbers,
+ * postal codes, dates, URLs, salutations) and proposes target columns for that content,
+ * so poorly named columns like "Feld1" or "Spalte C" can still be mapped.
+ */
+
+import { calculateSimilarity, MatchCandidate, tokenizeColumnName } from './stringMatching';
+import { parsePhoneNumber } from './phoneNumbers';
+
+export type ContentKind = 'email' | 'phone' | 'postal_code' | 'date' | 'url' | 'salutation';
+
+export const CONTENT_KIND_LABELS: Record<ContentKind, string> = {
+  email: 'E-Mail-Adressen',
+  phone: 'Telefonnummern',
+  postal_code: 'Postleitzahlen',
+  date: 'Datumswerte',
+  url: 'URLs',
+  salutation: 'Anreden',
+};
+
+// Share of the non-empty sample values that must fit a kind
+const MIN_CONTENT_SHARE = 0.8;
+
+// Weight of the content signal against the header similarity in the combined score
+const CONTENT_WEIGHT = 0.85;
+
+const SALUTATIONS = ['herr', 'frau', 'divers', 'mr', 'mrs', 'ms', 'dr', 'prof', 'firma'];
+
+// Checked in this order, so the more specific kinds win
+const CONTENT_PATTERNS: Array<{ kind: ContentKind, test: (value: string) => boolean }> = [
+  { kind: 'email', test: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) },
+  { kind: 'url', test: value => /^(https?:\/\/|www\.)\S+$/i.test(value) || /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(\/\S*)?$/i.test(value) },
+  { kind: 'date', test: value => /^(\d{1,2}\.\d{1,2}\.(\d{2}|\d{4})|\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})([ T]\d{1,2}:\d{2}(:\d{2})?)?$/.test(value) },
+  { kind: 'postal_code', test: value => /^(D-)?\d{5}$/.test(value) },
+  { kind: 'phone', test: value => parsePhoneNumber(value) !== null },
+  {
+    kind: 'salutation',
+    test: value => value.toLowerCase().split(/[\s.]+/).filter(Boolean).every(token => SALUTATIONS.includes(token)),
+  },
+];
+
+// Column name words and Baserow field types that hold each kind
+const TARGET_HINTS: Record<ContentKind, { names: string[], types: string[] }> = {
+  email: { names: ['email', 'mail'], types: ['email'] },
+  phone: { names: ['telefon', 'phone', 'tel', 'mobil', 'handy', 'fax'], types: ['phone_number'] },
+  postal_code: { names: ['plz', 'postleitzahl', 'zip', 'postal', 'postcode'], types: [] },
+  date: { names: ['datum', 'date', 'geburtstag', 'birthday', 'geboren', 'erstellt', 'created'], types: ['date'] },
+  url: { names: ['url', 'website', 'webseite', 'homepage', 'web', 'link', 'internet'], types: ['url'] },
+  salutation: { names: ['anrede', 'salutation', 'titel', 'title', 'geschlecht', 'gender'], types: [] },
+};
+
+// Kind of content in the sample values, with the share of values that fit it
+export const detectContentKind = (values: string[]): { kind: ContentKind, share: number } | null => {
+  const filled = values.map(value => (value || '').trim()).filter(value => value !== '');
+  if (filled.length === 0) return null;
+
+  for (const { kind, test } of CONTENT_PATTERNS) {
+    const share = filled.filter(test).length / filled.length;
+    if (share >= MIN_CONTENT_SHARE) {
+      return { kind, share };
+    }
+  }
+  return null;
+};
+
+// Hints of at least this length also match as part of a compound word ("Telefonnummer", "Geburtsdatum");
+// shorter ones only as a whole word, so "tel" does not match "Titel" and "web" not "Webinar"
+const MIN_COMPOUND_HINT_LENGTH = 5;
+
+const tokenMatchesHint = (token: string, hint: string) => {
+  return token === hint || (hint.length >= MIN_COMPOUND_HINT_LENGTH && (token.startsWith(hint) || token.endsWith(hint)));
+};
+
+// Whether a target column is meant for the given kind, by the words of its name or its field type
+export const targetAcceptsKind = (targetColumn: string, kind: ContentKind, targetType?: string): boolean => {
+  const hints = TARGET_HINTS[kind];
+  if (targetType && hints.types.includes(targetType)) return true;
+  const tokens = tokenizeColumnName(targetColumn);
+  return hints.names.some(name => tokens.some(token => tokenMatchesHint(token, name)));
+};
+
+// Target columns for the content of a source column, scored together with the header similarity
+export const findContentCandidates = (
+  userColumn: string,
+  values: string[],
+  targetColumns: string[],
+  targetTypes: Record<string, string> = {}
+): MatchCandidate[] => {
+  const detected = detectContentKind(values);
+  if (!detected) return [];
+
+  const detail = `${Math.round(detected.share * 100)}% ${CONTENT_KIND_LABELS[detected.kind]}`;
+  return targetColumns
+    .filter(column => targetAcceptsKind(column, detected.kind, targetTypes[column]))
+    .map(column => {
+      const headerSimilarity = calculateSimilarity(userColumn, column);
+      // Stays below 100 so a content match is never locked in the mapping
+      const similarity = Math.min(99, Math.round(
+        Math.max(headerSimilarity, CONTENT_WEIGHT * detected.share * 100 + (1 - CONTENT_WEIGHT) * headerSimilarity)
+      ));
+      return { column, similarity, reason: 'content' as const, detail };
+    })
+    .sort((a, b) => b.similarity - a.similarity);
+};
+
@@ -0,0 +1,201 @@
+/**
+ * RFC 4180 CSV tokenizer
+ * Works on the whole file content so quoted fields may contain delimiters,
+ * escaped quotes ("") and line breaks without breaking the record structure.
+ */
+
+export interface CsvRecord {
+  values: string[];
+  lineNumber: number; // Physical (1-based) line on which the record starts
+}
+
+export interface CsvParseOptions {
+  delimiter?: string;
+  maxRecords?: number; // Stop after this many records (e.g. 1 for headers only)
+  trim?: boolean; // Trim whitespace around unquoted values and outside the quotes (default: true)
+}
+
+// Whitespace inside quotes is part of the value, only the whitespace around it is trimmed
+const finishField = (field: string, trim: boolean, quotedEnd: number | null): string => {
+  if (!trim) return field;
+  return quotedEnd === null ? field.trim() : field.slice(0, quotedEnd) + field.slice(quotedEnd).trimEnd();
+};
+
+// Parse CSV content into logical records, keeping track of physical line numbers
+export const parseCSV = (content: string, options: CsvParseOptions = {}): CsvRecord[] => {
+  const delimiter = options.delimiter || ',';
+  const maxRecords = options.maxRecords ?? Infinity;
+  const trim = options.trim ?? true;
+  const records: CsvRecord[] = [];
+  const length = content ? content.length : 0;
+
+  let i = 0;
+  let line = 1;
+
+  while (i < length && records.length < maxRecords) {
+    const startLine = line;
+    const values: string[] = [];
+    let field = '';
+    let wasQuoted = false;
+    let quotedEnd: number | null = null; // Length of the field when its closing quote was read
+    let inQuotes = false;
+
+    while (i < length) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (content[i + 1] === '"') {
+            // Escaped quote
+            field += '"';
+            i += 2;
+          } else {
+            // End of quoted section
+            inQuotes = false;
+            quotedEnd = field.length;
+            i++;
+          }
+          continue;
+        }
+
+        // Copy everything up to the next quote in one go (may span lines)
+        let end = content.indexOf('"', i);
+        if (end === -1) end = length;
+        const chunk = content.slice(i, end);
+        line += countLineBreaks(chunk);
+        field += chunk;
+        i = end;
+        continue;
+      }
+
+      if (char === delimiter) {
+        values.push(finishField(field, trim, quotedEnd));
+        field = '';
+        wasQuoted = false;
+        quotedEnd = null;
+        i++;
+        continue;
+      }
+
+      if (char === '\n' || char === '\r') {
+        // End of record - treat \r\n as a single line break
+        i += char === '\r' && content[i + 1] === '\n' ? 2 : 1;
+        line++;
+        break;
+      }
+
+      if (char === '"' && field.trim() === '' && !wasQuoted) {
+        // Start of quoted field (leading whitespace before the quote is dropped)
+        field = '';
+        wasQuoted = true;
+        inQuotes = true;
+        i++;
+        continue;
+      }
+
+      // Regular character - quotes inside unquoted fields are kept literally
+      field += char;
+      i++;
+    }
+
+    values.push(finishField(field, trim, wasQuoted ? quotedEnd ?? field.length : null));
+
+    // Skip physically empty lines
+    if (values.length === 1 && values[0] === '' && !wasQuoted) {
+      continue;
+    }
+
+    records.push({ values, lineNumber: startLine });
+  }
+
+  return records;
+};
+
+// Parse only the first record (header row)
+export const parseCSVHeader = (content: string, options: Omit<CsvParseOptions, 'maxRecords'> = {}): string[] => {
+  const [firstRecord] = parseCSV(content, { ...options, maxRecords: 1 });
+  return firstRecord ? firstRecord.values : [];
+};
+
+// Check whether a record only contains empty values
+export const isEmptyRecord = (record: CsvRecord): boolean => {
+  return record.values.every(value => !value || value.trim() === '');
+};
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+// Delimiters offered for detection and manual override
+export const CSV_DELIMITERS: Array<{ value: CsvDelimiter; label: string }> = [
+  { value: ',', label: 'Komma (,)' },
+  { value: ';', label: 'Semikolon (;)' },
+  { value: '\t', label: 'Tabulator' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const getDelimiterLabel = (delimiter: string): string => {
+  return CSV_DELIMITERS.find(option => option.value === delimiter)?.label || delimiter;
+};
+
+// Sniff the delimiter from the first records: the candidate that yields the most
+// columns with a consistent column count across the sample wins (comma on ties)
+export const detectDelimiter = (content: string, sampleLines: number = 20): CsvDelimiter => {
+  // Only look at the beginning of the file, enough for the sample
+  const sample = (content || '').slice(0, 64 * 1024);
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  for (const { value: delimiter } of CSV_DELIMITERS) {
+    const records = parseCSV(sample, { delimiter, maxRecords: sampleLines, trim: false });
+    // The last record may be cut off by the sample limit
+    if (sample.length < content.length && records.length > 1 && records.length < sampleLines) {
+      records.pop();
+    }
+    if (records.length === 0) continue;
+
+    // Find the most common column count and how many records share it
+    const counts: Record<number, number> = {};
+    records.forEach(record => {
+      counts[record.values.length] = (counts[record.values.length] || 0) + 1;
+    });
+    const [modeColumns, modeFrequency] = Object.entries(counts)
+      .map(([columns, frequency]) => [Number(columns), frequency])
+      .sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+
+    if (modeColumns < 2) continue;
+
+    const consistency = modeFrequency / records.length;
+    const score = consistency * modeColumns;
+    if (score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+
+  return best.delimiter;
+};
+
+// Quote a value when it contains the delimiter, quotes, line breaks or surrounding whitespace
+const escapeCSVValue = (value: string, delimiter: string): string => {
+  const text = value ?? '';
+  if (text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+// Write rows as CSV; values with surrounding whitespace are quoted, so parseCSV reads them back unchanged
+export const stringifyCSV = (rows: string[][], delimiter: string = ','): string => {
+  return rows.map(row => row.map(value => escapeCSVValue(value, delimiter)).join(delimiter)).join('\r\n');
+};
+
+// Count physical line breaks (\r\n, \n or \r) inside a text chunk
+const countLineBreaks = (text: string): number => {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') {
+      count++;
+    } else if (char === '\r' && text[i + 1] !== '\n') {
+      count++;
+    }
+  }
+  return count;
+};
@@ -0,0 +1,150 @@
+/**
+ * Dry-run report of an import
+ * Applies the mapping and the value conversions to every record without writing to
+ * Baserow and summarises what the import would do.
+ */
+
+import { CsvRecord } from './csvParser';
+import { FieldSpec, BaserowFieldType, convertValue } from './fieldTypes';
+import { DuplicateStrategy } from './duplicates';
+import { ColumnRules, createTargetComposer, getTargetSources } from './columnRules';
+import { ValidationRule, createRowValidator, hasValidationErrors } from './validation';
+
+export interface ColumnReport {
+  column: string; // Target column
+  sourceColumns: string[];
+  type: BaserowFieldType;
+  filled: number; // Rows with a value
+  fillRate: number; // Percentage of imported rows with a value
+  conversionFailures: number;
+  failureSamples: Array<{ lineNumber: number; value: string }>;
+  roundedValues: number; // Numbers with more decimal places than the field keeps
+  roundedSamples: Array<{ lineNumber: number; value: string }>;
+}
+
+export interface DryRunReport {
+  tableName: string; // Table that would be created or written to
+  totalRows: number; // Data records in the file, including empty ones
+  emptyRows: number; // Records without any value
+  unmappedRows: number; // Records whose mapped columns are all empty
+  duplicateGroups: number;
+  duplicateRows: number; // Records that belong to a duplicate group beyond its first record
+  duplicatesRemoved: number; // Records dropped or merged by the chosen strategy
+  duplicateStrategy: DuplicateStrategy;
+  importRows: number; // Records that would be sent to Baserow
+  rowsWithErrors: number; // Records with at least one value that does not fit its field type
+  roundedRows: number; // Records with at least one number rounded to the decimal places of its field
+  invalidRows: number; // Records left out because they break an error rule
+  flaggedRows: number; // Records imported with a warning
+  columns: ColumnReport[];
+}
+
+// Failed and rounded values listed per column in the review screen
+const MAX_FAILURE_SAMPLES = 5;
+
+// Check every mapped value of the records against the type of its target field
+export const buildDryRunReport = (params: {
+  tableName: string;
+  headers: string[];
+  records: CsvRecord[]; // After duplicate resolution
+  mappings: Record<string, string>;
+  columnRules: ColumnRules;
+  validationRules: ValidationRule[];
+  fieldSpecs: FieldSpec[];
+  totalRows: number;
+  emptyRows: number;
+  duplicateGroups: number;
+  duplicateRows: number;
+  duplicatesRemoved: number;
+  duplicateStrategy: DuplicateStrategy;
+}): DryRunReport => {
+  const { headers, records, mappings, columnRules, fieldSpecs } = params;
+  const targetSources = getTargetSources(headers, mappings, columnRules);
+  const composeTargetValues = createTargetComposer(headers, mappings, columnRules);
+  const validateRow = createRowValidator(params.validationRules);
+
+  const columns: ColumnReport[] = fieldSpecs.map(spec => ({
+    column: spec.name,
+    sourceColumns: targetSources[spec.name] || [],
+    type: spec.type,
+    filled: 0,
+    fillRate: 0,
+    conversionFailures: 0,
+    failureSamples: [],
+    roundedValues: 0,
+    roundedSamples: [],
+  }));
+
+  const specs = columns.map(column => ({
+    column,
+    spec: fieldSpecs.find(spec => spec.name === column.column) as FieldSpec,
+  }));
+
+  let unmappedRows = 0;
+  let rowsWithErrors = 0;
+  let roundedRows = 0;
+  let invalidRows = 0;
+  let flaggedRows = 0;
+
+  records.forEach(record => {
+    const composed = composeTargetValues(record.values);
+    // Rows breaking an error rule are not sent, so their values are not checked against the field types
+    const issues = Object.keys(composed).length > 0 ? validateRow(composed) : [];
+    if (hasValidationErrors(issues)) {
+      invalidRows++;
+      return;
+    }
+    let hasValue = false;
+    let hasError = false;
+    let hasRounded = false;
+
+    specs.forEach(({ column, spec }) => {
+      const value = composed[column.column];
+      if (value === undefined) return;
+
+      hasValue = true;
+      column.filled++;
+      const converted = convertValue(value, spec);
+      if (converted.rounded) {
+        hasRounded = true;
+        column.roundedValues++;
+        if (column.roundedSamples.length < MAX_FAILURE_SAMPLES) {
+          column.roundedSamples.push({ lineNumber: record.lineNumber, value });
+        }
+      }
+      if (converted.valid) return;
+      hasError = true;
+      column.conversionFailures++;
+      if (column.failureSamples.length < MAX_FAILURE_SAMPLES) {
+        column.failureSamples.push({ lineNumber: record.lineNumber, value });
+      }
+    });
+
+    if (!hasValue) unmappedRows++;
+    if (hasError) rowsWithErrors++;
+    if (hasRounded) roundedRows++;
+    if (hasValue && issues.length > 0) flaggedRows++;
+  });
+
+  const importRows = records.length - unmappedRows - invalidRows;
+  columns.forEach(column => {
+    column.fillRate = importRows > 0 ? Math.round((column.filled / importRows) * 100) : 0;
+  });
+
+  return {
+    tableName: params.tableName,
+    totalRows: params.totalRows,
+    emptyRows: params.emptyRows,
+    unmappedRows,
+    duplicateGroups: params.duplicateGroups,
+    duplicateRows: params.duplicateRows,
+    duplicatesRemoved: params.duplicatesRemoved,
+    duplicateStrategy: params.duplicateStrategy,
+    importRows,
+    rowsWithErrors,
+    roundedRows,
+    invalidRows,
+    flaggedRows,
+    columns,
+  };
+};
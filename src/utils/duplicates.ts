@@ -0,0 +1,100 @@
+/**
+ * Duplicate detection inside an uploaded file
+ * Groups records with the same normalised key (case, whitespace, e-mail spelling)
+ * and resolves each group according to the strategy chosen in the review step.
+ */
+
+import { CsvRecord } from './csvParser';
+
+export type DuplicateStrategy = 'keep_first' | 'keep_last' | 'merge' | 'import_all';
+
+export const DUPLICATE_STRATEGIES: Array<{ value: DuplicateStrategy; label: string }> = [
+  { value: 'keep_first', label: 'Ersten Eintrag behalten' },
+  { value: 'keep_last', label: 'Letzten Eintrag behalten' },
+  { value: 'merge', label: 'Zusammenführen (leere Werte ergänzen)' },
+  { value: 'import_all', label: 'Alle importieren' },
+];
+
+export interface DuplicateGroup {
+  key: string;
+  records: CsvRecord[]; // In file order
+}
+
+// Normalise a key value: trim, collapse whitespace and ignore case; e-mail addresses lose all whitespace
+export const normalizeKeyValue = (value: string): string => {
+  const normalized = (value || '').trim().replace(/\s+/g, ' ').toLowerCase();
+  return normalized.includes('@') ? normalized.replace(/\s/g, '') : normalized;
+};
+
+// Key of a record; null when all key values are empty (such records are never duplicates)
+const getDuplicateKey = (record: CsvRecord, keyIndexes: number[]): string | null => {
+  const parts = keyIndexes.map(index => normalizeKeyValue(record.values[index] ?? ''));
+  return parts.every(part => part === '') ? null : JSON.stringify(parts);
+};
+
+// Find groups of records sharing the same key, in order of their first occurrence
+export const findDuplicateGroups = (records: CsvRecord[], keyIndexes: number[]): DuplicateGroup[] => {
+  if (keyIndexes.length === 0) return [];
+
+  const groups = new Map<string, CsvRecord[]>();
+  records.forEach(record => {
+    const key = getDuplicateKey(record, keyIndexes);
+    if (key === null) return;
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  });
+
+  return [...groups.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([key, group]) => ({ key, records: group }));
+};
+
+// Fill the empty values of the first record with the first non-empty value of the later ones
+const mergeRecords = (group: CsvRecord[]): CsvRecord => {
+  const [first, ...rest] = group;
+  const values = [...first.values];
+  rest.forEach(record => {
+    record.values.forEach((value, index) => {
+      if ((values[index] ?? '').trim() === '' && (value ?? '').trim() !== '') {
+        values[index] = value;
+      }
+    });
+  });
+  return { values, lineNumber: first.lineNumber };
+};
+
+// Reduce every duplicate group to a single record; the result keeps the file order
+export const resolveDuplicates = (
+  records: CsvRecord[],
+  keyIndexes: number[],
+  strategy: DuplicateStrategy
+): { records: CsvRecord[], removed: number } => {
+  if (strategy === 'import_all') {
+    return { records, removed: 0 };
+  }
+
+  const groups = findDuplicateGroups(records, keyIndexes);
+  if (groups.length === 0) {
+    return { records, removed: 0 };
+  }
+
+  // The record that represents each group, stored at the position where it is kept
+  const replacements = new Map<CsvRecord, CsvRecord>();
+  const dropped = new Set<CsvRecord>();
+  groups.forEach(({ records: group }) => {
+    const kept = strategy === 'keep_last' ? group[group.length - 1] : group[0];
+    replacements.set(kept, strategy === 'merge' ? mergeRecords(group) : kept);
+    group.forEach(record => {
+      if (record !== kept) dropped.add(record);
+    });
+  });
+
+  const resolved = records
+    .filter(record => !dropped.has(record))
+    .map(record => replacements.get(record) || record);
+  return { records: resolved, removed: dropped.size };
+};
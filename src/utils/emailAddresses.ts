@@ -0,0 +1,127 @@
+/**
+ * E-mail address cleanup
+ * Extracts the addresses of a cell ("Anna" <anna@example.de>, mailto: links, several addresses
+ * per cell), lowercases them and flags invalid, role (info@, noreply@) and disposable addresses.
+ */
+
+export type EmailFlag = 'invalid' | 'role' | 'disposable';
+
+// What the cleanup keeps of a cell with several addresses
+export type EmailMultiple = 'first' | 'all';
+
+// A flagged address of an imported row, kept for the import summary
+export interface EmailFinding {
+  lineNumber: number;
+  column: string; // Target column
+  address: string;
+  flag: EmailFlag;
+}
+
+export const EMAIL_FLAG_LABELS: Record<EmailFlag, string> = {
+  invalid: 'Ungültig',
+  role: 'Rollenadresse',
+  disposable: 'Wegwerfadresse',
+};
+
+export const EMAIL_MULTIPLE_OPTIONS: Array<{ value: EmailMultiple, label: string }> = [
+  { value: 'first', label: 'Nur erste Adresse' },
+  { value: 'all', label: 'Alle Adressen (kommagetrennt)' },
+];
+
+// Local parts of addresses that reach a function or team rather than a person
+export const ROLE_ACCOUNTS = [
+  'admin', 'administrator', 'bewerbung', 'buchhaltung', 'contact', 'datenschutz', 'empfang', 'hallo', 'hello',
+  'hostmaster', 'info', 'jobs', 'karriere', 'kontakt', 'mail', 'marketing', 'no-reply', 'noreply', 'office',
+  'postmaster', 'presse', 'press', 'privacy', 'rechnung', 'sales', 'service', 'support', 'team', 'verkauf',
+  'vertrieb', 'webmaster', 'zentrale',
+];
+
+// Domains of well-known throwaway mailbox services
+export const DISPOSABLE_DOMAINS = [
+  '10minutemail.com', 'byom.de', 'discard.email', 'dispostable.com', 'einrot.com', 'fakeinbox.com',
+  'getnada.com', 'guerrillamail.com', 'guerrillamail.de', 'maildrop.cc', 'mailinator.com', 'mailnesia.com',
+  'mytrashmail.com', 'sharklasers.com', 'spam4.me', 'spambog.com', 'spamgourmet.com', 'temp-mail.org',
+  'throwawaymail.com', 'trash-mail.com', 'trashmail.com', 'trashmail.de', 'wegwerfmail.de', 'yopmail.com',
+];
+
+// Local part of at most 64 characters without leading, trailing or double dots;
+// domain labels of letters, digits and inner hyphens with a top-level domain of letters
+const EMAIL_SYNTAX = /^(?=[^@]{1,64}@)[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@(?=.{1,253}$)([\p{L}\p{N}]([\p{L}\p{N}-]{0,61}[\p{L}\p{N}])?\.)+\p{L}{2,}$/u;
+
+// Share of the non-empty values that must contain an @ for a column to look like e-mail addresses
+const MIN_EMAIL_SHARE = 0.8;
+
+// Split a cell at commas, semicolons and line breaks outside quotes and angle brackets
+const splitCell = (value: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let bracketed = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === '<') bracketed = true;
+    if (char === '>') bracketed = false;
+    if (!quoted && !bracketed && /[,;\r\n]/.test(char)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+// "Anna Muster" <Anna@Example.de> or mailto:anna@example.de?subject=Hallo -> anna@example.de
+export const cleanEmailAddress = (rawValue: string): string => {
+  let value = (rawValue || '').trim();
+  const bracketed = value.match(/<([^<>]*)>/);
+  if (bracketed) {
+    value = bracketed[1];
+  }
+  value = value.trim().replace(/^mailto:/i, '').replace(/\?.*$/, '');
+  return value.replace(/^["'([]+|["')\]]+$/g, '').trim().toLowerCase();
+};
+
+// All addresses of a cell, cleaned and without repeats
+export const parseEmailAddresses = (rawValue: string): string[] => {
+  const addresses = splitCell(String(rawValue ?? '')).flatMap(part => {
+    const trimmed = part.trim();
+    if (trimmed === '' || /<[^<>]*>/.test(trimmed)) return [trimmed];
+    // Addresses separated by spaces, or a display name without angle brackets
+    const tokens = trimmed.split(/\s+/).filter(token => token.includes('@'));
+    return tokens.length > 0 ? tokens : [trimmed];
+  });
+  return [...new Set(addresses.map(cleanEmailAddress).filter(Boolean))];
+};
+
+export const isValidEmailAddress = (address: string): boolean => EMAIL_SYNTAX.test(address);
+
+// Flag of a cleaned address, null when it is a valid personal address
+export const getEmailFlag = (address: string): EmailFlag | null => {
+  if (!isValidEmailAddress(address)) return 'invalid';
+  const [localPart, domain] = address.split('@');
+  if (DISPOSABLE_DOMAINS.includes(domain)) return 'disposable';
+  // Sub-addresses like info+newsletter@ count as the role account
+  if (ROLE_ACCOUNTS.includes(localPart.split('+')[0])) return 'role';
+  return null;
+};
+
+// Flagged addresses of a cell
+export const checkEmailCell = (value: string): Array<{ address: string, flag: EmailFlag }> => {
+  return parseEmailAddresses(value)
+    .map(address => ({ address, flag: getEmailFlag(address) }))
+    .filter((result): result is { address: string, flag: EmailFlag } => result.flag !== null);
+};
+
+// Cleaned cell value: the first address or all of them joined by commas
+export const cleanEmailCell = (value: string, multiple: EmailMultiple = 'first'): string => {
+  const addresses = parseEmailAddresses(value);
+  return multiple === 'first' ? addresses[0] || '' : addresses.join(', ');
+};
+
+// Whether sample values look like e-mail addresses, including wrapped or listed ones
+export const looksLikeEmailColumn = (values: string[]): boolean => {
+  const filled = values.map(value => (value || '').trim()).filter(Boolean);
+  return filled.length > 0 && filled.filter(value => value.includes('@')).length / filled.length >= MIN_EMAIL_SHARE;
+};
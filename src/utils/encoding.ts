@@ -0,0 +1,141 @@
+/**
+ * Character encoding detection and decoding for uploaded text files
+ * Distinguishes UTF-8, UTF-16 and Windows-1252/Latin-1 so files exported from
+ * older systems keep their umlauts ("Müller" instead of "M�ller").
+ */
+
+export type FileEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-15';
+
+// Encodings offered for detection and manual override
+export const FILE_ENCODINGS: Array<{ value: FileEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 / ISO-8859-1 (Latin-1)' },
+  { value: 'iso-8859-15', label: 'ISO-8859-15 (Latin-9, mit €)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+export interface EncodingDetection {
+  encoding: FileEncoding;
+  hasBom: boolean;
+  confidence: 'bom' | 'high' | 'low';
+}
+
+// Number of bytes inspected for detection and kept for the header preview
+export const ENCODING_SAMPLE_SIZE = 64 * 1024;
+
+export const getEncodingLabel = (encoding: string): string => {
+  return FILE_ENCODINGS.find(option => option.value === encoding)?.label || encoding;
+};
+
+// Detect the encoding of a byte sample (BOM first, then UTF-16 and UTF-8 heuristics)
+export const detectEncoding = (bytes: Uint8Array): EncodingDetection => {
+  // Byte order marks are definitive
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', hasBom: true, confidence: 'bom' };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', hasBom: true, confidence: 'bom' };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', hasBom: true, confidence: 'bom' };
+  }
+
+  // UTF-16 without BOM: ASCII text has a zero byte in every second position
+  const utf16 = detectUtf16WithoutBom(bytes);
+  if (utf16) {
+    return { encoding: utf16, hasBom: false, confidence: 'high' };
+  }
+
+  // Valid UTF-8 with multi-byte sequences is a strong signal; pure ASCII is compatible with both
+  const utf8 = analyzeUtf8(bytes);
+  if (utf8.valid) {
+    return { encoding: 'utf-8', hasBom: false, confidence: utf8.multiByteSequences > 0 ? 'high' : 'low' };
+  }
+
+  // Invalid UTF-8 in a German export almost always means Windows-1252
+  return { encoding: 'windows-1252', hasBom: false, confidence: 'high' };
+};
+
+// Decode bytes with the given encoding; the BOM is removed by TextDecoder
+export const decodeBytes = (bytes: Uint8Array, encoding: FileEncoding): string => {
+  return new TextDecoder(encoding).decode(bytes);
+};
+
+// Convert the encoding sample to a string that fits into sessionStorage
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const detectUtf16WithoutBom = (bytes: Uint8Array): FileEncoding | null => {
+  const length = Math.min(bytes.length, ENCODING_SAMPLE_SIZE) & ~1;
+  if (length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  const pairs = length / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+};
+
+// Validate UTF-8 byte sequences; an incomplete sequence at the very end of the sample is tolerated
+const analyzeUtf8 = (bytes: Uint8Array): { valid: boolean; multiByteSequences: number } => {
+  let multiByteSequences = 0;
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+
+    if (byte < 0x80) {
+      i++;
+      continue;
+    }
+
+    let continuationBytes: number;
+    if (byte >= 0xc2 && byte <= 0xdf) {
+      continuationBytes = 1;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      continuationBytes = 2;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      continuationBytes = 3;
+    } else {
+      return { valid: false, multiByteSequences };
+    }
+
+    // Sequence cut off by the sample boundary
+    if (i + continuationBytes >= bytes.length) {
+      break;
+    }
+
+    for (let j = 1; j <= continuationBytes; j++) {
+      if ((bytes[i + j] & 0xc0) !== 0x80) {
+        return { valid: false, multiByteSequences };
+      }
+    }
+
+    multiByteSequences++;
+    i += continuationBytes + 1;
+  }
+
+  return { valid: true, multiByteSequences };
+};
@@ -0,0 +1,46 @@
+/**
+ * Error report for rows Baserow rejected or the validation rules flagged during an import
+ * Writes the original CSV values with the error message so users can fix the rows
+ * and import the report file again.
+ */
+
+import { stringifyCSV } from './csvParser';
+import type { FailedRecord } from './baserowApi';
+import { formatValidationIssues, ValidationFinding } from './validation';
+
+// CSV with the original header and an additional error column
+export const buildFailedRowsCsv = (headers: string[], failedRecords: FailedRecord[], delimiter: string = ','): string => {
+  const rows = [
+    [...headers, 'Fehler'],
+    ...failedRecords.map(record => [
+      ...headers.map((_, index) => record.values[index] ?? ''),
+      record.error,
+    ]),
+  ];
+  return stringifyCSV(rows, delimiter);
+};
+
+// CSV with the original header and the broken rules of each row
+export const buildValidationCsv = (headers: string[], findings: ValidationFinding[], delimiter: string = ','): string => {
+  const rows = [
+    [...headers, 'Prüfung'],
+    ...findings.map(finding => [
+      ...headers.map((_, index) => finding.values[index] ?? ''),
+      formatValidationIssues(finding.issues),
+    ]),
+  ];
+  return stringifyCSV(rows, delimiter);
+};
+
+// Offer text content as file download; the BOM lets Excel detect UTF-8 umlauts
+export const downloadTextFile = (fileName: string, content: string, mimeType: string = 'text/csv;charset=utf-8') => {
+  const blob = new Blob(['\uFEFF', content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
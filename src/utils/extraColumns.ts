@@ -0,0 +1,88 @@
+/**
+ * Extra columns
+ * Target columns that do not come from the file: a constant, a value of the upload form,
+ * the file name, the import time or an expression over other columns of the same row.
+ */
+
+export type ExtraColumnSource = 'constant' | 'user_data' | 'file_name' | 'import_date' | 'expression';
+
+export type UserDataKey = 'company' | 'zielgruppe' | 'email';
+
+export interface ExtraColumn {
+  name: string;
+  source: ExtraColumnSource;
+  value: string; // Constant text, user data key or expression; unused for file name and import date
+}
+
+// What the context dependent sources are resolved with when an import starts
+export interface ImportContext {
+  userData?: Partial<Record<UserDataKey, string>>;
+  fileName?: string;
+  importedAt?: Date;
+}
+
+export const EXTRA_COLUMN_SOURCE_OPTIONS: Array<{ value: ExtraColumnSource, label: string }> = [
+  { value: 'constant', label: 'Fester Wert' },
+  { value: 'user_data', label: 'Angabe aus dem Upload' },
+  { value: 'file_name', label: 'Dateiname' },
+  { value: 'import_date', label: 'Importzeitpunkt' },
+  { value: 'expression', label: 'Ausdruck aus anderen Spalten' },
+];
+
+export const USER_DATA_OPTIONS: Array<{ value: UserDataKey, label: string }> = [
+  { value: 'company', label: 'Firma' },
+  { value: 'zielgruppe', label: 'Zielgruppe' },
+  { value: 'email', label: 'E-Mail des Uploaders' },
+];
+
+// Column names proposed for a new extra column of each source
+const DEFAULT_NAMES: Record<ExtraColumnSource, string> = {
+  constant: 'Quelle',
+  user_data: 'Firma',
+  file_name: 'Dateiname',
+  import_date: 'Importdatum',
+  expression: 'Berechnet',
+};
+
+export const createExtraColumn = (source: ExtraColumnSource): ExtraColumn => ({
+  name: DEFAULT_NAMES[source],
+  source,
+  value: source === 'user_data' ? 'company' : '',
+});
+
+// UTC time in ISO format, so date fields with time store the moment of the import in any time zone
+export const formatImportTimestamp = (date: Date): string => date.toISOString();
+
+// Field type of an extra column when it is known up front; other columns are profiled
+export const getExtraColumnFieldSpec = (column: ExtraColumn) => {
+  return column.source === 'import_date'
+    ? { name: column.name, type: 'date' as const, dateFormat: 'EU' as const, dateIncludeTime: true }
+    : null;
+};
+
+// Turn the context dependent columns into constants, so every row of an import gets the same value
+export const resolveExtraColumns = (columns: ExtraColumn[], context: ImportContext): ExtraColumn[] => {
+  return columns.map(column => {
+    switch (column.source) {
+      case 'user_data':
+        return { ...column, source: 'constant', value: context.userData?.[column.value as UserDataKey] || '' };
+      case 'file_name':
+        return { ...column, source: 'constant', value: context.fileName || '' };
+      case 'import_date':
+        return { ...column, source: 'constant', value: formatImportTimestamp(context.importedAt || new Date()) };
+      default:
+        return column;
+    }
+  });
+};
+
+// Fill the {Spalte} placeholders of an expression with the values of the row
+export const evaluateExpression = (expression: string, values: Record<string, string>): string => {
+  return expression.replace(/\{([^{}]+)\}/g, (_, column: string) => values[column.trim()] ?? '').trim();
+};
+
+// Placeholders of an expression that match no column
+export const getUnknownPlaceholders = (expression: string, columns: string[]): string[] => {
+  const placeholders = [...expression.matchAll(/\{([^{}]+)\}/g)].map(match => match[1].trim());
+  return [...new Set(placeholders.filter(placeholder => !columns.includes(placeholder)))];
+};
@@ -0,0 +1,346 @@
+/**
+ * Baserow field types for imported columns
+ * Profiles the values of each mapped column to propose a field type, builds the
+ * field payloads for the Baserow API and converts cell values to match the type.
+ */
+
+import {
+  ValueLocale,
+  ParsedDate,
+  TRUE_VALUES,
+  FALSE_VALUES,
+  parseLocaleNumber,
+  parseLocaleDate,
+  parseIsoDate,
+  parseExcelSerialDate,
+  parseBoolean,
+  countDecimalPlaces,
+  detectValueLocale,
+} from './valueParsing';
+import { parsePhoneNumber } from './phoneNumbers';
+
+export type BaserowFieldType =
+  | 'text'
+  | 'long_text'
+  | 'number'
+  | 'date'
+  | 'boolean'
+  | 'email'
+  | 'url'
+  | 'phone_number'
+  | 'single_select'
+  | 'multiple_select';
+
+export type DateFormat = 'EU' | 'US' | 'ISO';
+
+// Type-specific settings of a field
+export interface FieldOptions {
+  numberDecimalPlaces?: number;
+  dateFormat?: DateFormat;
+  dateIncludeTime?: boolean;
+  selectOptions?: string[];
+  locale?: ValueLocale; // How numbers and dates are written in the file
+}
+
+// Target field specification used when creating columns and converting values
+export interface FieldSpec extends FieldOptions {
+  name: string;
+  type: BaserowFieldType;
+}
+
+// Field types offered in the column mapping
+export const FIELD_TYPE_OPTIONS: Array<{ value: BaserowFieldType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'long_text', label: 'Langer Text' },
+  { value: 'number', label: 'Zahl' },
+  { value: 'date', label: 'Datum' },
+  { value: 'boolean', label: 'Ja/Nein' },
+  { value: 'email', label: 'E-Mail' },
+  { value: 'phone_number', label: 'Telefon' },
+  { value: 'url', label: 'URL' },
+  { value: 'single_select', label: 'Einfachauswahl' },
+  { value: 'multiple_select', label: 'Mehrfachauswahl' },
+];
+
+export const DATE_FORMAT_OPTIONS: Array<{ value: DateFormat; label: string }> = [
+  { value: 'EU', label: 'TT.MM.JJJJ' },
+  { value: 'US', label: 'MM/TT/JJJJ' },
+  { value: 'ISO', label: 'JJJJ-MM-TT' },
+];
+
+export const getFieldTypeLabel = (type: string): string => {
+  return FIELD_TYPE_OPTIONS.find(option => option.value === type)?.label || type;
+};
+
+// Split a spec into its type and type-specific options
+export const getFieldOptions = (spec: FieldSpec): FieldOptions => {
+  const { name, type, ...options } = spec;
+  return options;
+};
+
+// Default options when the user switches a column to another type
+export const getDefaultFieldOptions = (type: BaserowFieldType, current: FieldOptions = {}): FieldOptions => {
+  switch (type) {
+    case 'number':
+      return { numberDecimalPlaces: current.numberDecimalPlaces ?? 0, locale: current.locale };
+    case 'date':
+      return { dateFormat: current.dateFormat || 'EU', dateIncludeTime: !!current.dateIncludeTime, locale: current.locale };
+    case 'single_select':
+    case 'multiple_select':
+      return { selectOptions: current.selectOptions || [] };
+    default:
+      return {};
+  }
+};
+
+// Add values found in the file that are missing from a select field's options,
+// so rows are not rejected because of an incomplete option list
+export const completeSelectOptions = (spec: FieldSpec, rawValues: string[]): FieldSpec => {
+  if (spec.type !== 'single_select' && spec.type !== 'multiple_select') {
+    return spec;
+  }
+  const options = new Set(spec.selectOptions || []);
+  rawValues.forEach(rawValue => {
+    const value = (rawValue || '').trim();
+    if (!value) return;
+    const items = spec.type === 'multiple_select' ? value.split(/[,;]/).map(item => item.trim()) : [value];
+    items.filter(Boolean).forEach(item => options.add(item));
+  });
+  return { ...spec, selectOptions: [...options] };
+};
+
+// Field as returned by the Baserow fields endpoint (only the properties used here)
+export interface BaserowField {
+  id: number;
+  name: string;
+  type: string;
+  primary?: boolean;
+  number_decimal_places?: number;
+  date_format?: string;
+  date_include_time?: boolean;
+  select_options?: Array<{ id: number; value: string; color?: string }>;
+}
+
+// Field types whose values are computed by Baserow and cannot be written by an import
+const READ_ONLY_FIELD_TYPES = [
+  'formula',
+  'created_on',
+  'last_modified',
+  'created_by',
+  'last_modified_by',
+  'autonumber',
+  'uuid',
+  'count',
+  'rollup',
+  'lookup',
+];
+
+export const isWritableFieldType = (type: string): boolean => !READ_ONLY_FIELD_TYPES.includes(type);
+
+// Build the spec of an existing field so values are converted to match it.
+// Field types the importer does not know are filled with the raw text.
+export const fromBaserowField = (field: BaserowField): FieldSpec => {
+  const type = FIELD_TYPE_OPTIONS.some(option => option.value === field.type) ? (field.type as BaserowFieldType) : 'text';
+  const spec: FieldSpec = { name: field.name, type };
+
+  switch (type) {
+    case 'number':
+      spec.numberDecimalPlaces = field.number_decimal_places ?? 0;
+      break;
+    case 'date':
+      spec.dateFormat = (['EU', 'US', 'ISO'].includes(field.date_format || '') ? field.date_format : 'EU') as DateFormat;
+      spec.dateIncludeTime = !!field.date_include_time;
+      break;
+    case 'single_select':
+    case 'multiple_select':
+      spec.selectOptions = (field.select_options || []).map(option => option.value);
+      break;
+  }
+
+  return spec;
+};
+
+export type FieldValue = string | number | boolean | string[];
+
+export interface ConvertedValue {
+  value: FieldValue;
+  valid: boolean; // false when the raw value does not fit the field type
+  rounded?: boolean; // A number with more decimal places than the field keeps
+}
+
+// Limits for the column profiler
+const PROFILE_LIMITS = {
+  MAX_TEXT_LENGTH: 255, // Longer values need a long_text field
+  MAX_SELECT_OPTIONS: 20, // More distinct values than this stay text
+  MAX_SELECT_RATIO: 0.2, // Distinct values / filled values for a select column
+  MIN_SELECT_VALUES: 20, // Too few values make a select guess unreliable
+  MAX_SELECT_OPTION_LENGTH: 60,
+  MAX_DECIMAL_PLACES: 10,
+  MIN_CODE_LENGTH: 4, // Digit values of one width from this length on are codes (PLZ, customer numbers)
+};
+
+const SELECT_COLORS = ['blue', 'green', 'orange', 'red', 'yellow', 'purple', 'brown', 'dark-blue', 'dark-green', 'dark-orange'];
+
+const EMAIL_PATTERN = /^[^\s@<>()]+@[^\s@<>()]+\.[^\s@<>()]{2,}$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s]+\.[^\s]+$/i;
+const PHONE_PATTERN = /^\+?[\d\s()/.-]+$/;
+
+// Check a single value against a field type
+const isBoolean = (value: string) => TRUE_VALUES.includes(value.toLowerCase()) || FALSE_VALUES.includes(value.toLowerCase());
+const isEmail = (value: string) => EMAIL_PATTERN.test(value);
+const isUrl = (value: string) => URL_PATTERN.test(value);
+// Phone numbers start with + or a trunk prefix, pure numbers are handled as numbers
+const isPhone = (value: string) => /^[+0(]/.test(value) && parsePhoneNumber(value) !== null;
+
+// Postal codes, IDs and other digit codes: a leading zero or the same width in every value.
+// As numbers they would lose leading zeros and could no longer be merged with text.
+const isDigitCode = (values: string[]) => {
+  if (!values.every(value => /^\d+$/.test(value))) return false;
+  const widths = new Set(values.map(value => value.length));
+  return values.some(value => value.length > 1 && value.startsWith('0'))
+    || (widths.size === 1 && values[0].length >= PROFILE_LIMITS.MIN_CODE_LENGTH);
+};
+
+// Propose a field type for a column from its values
+export const profileColumn = (name: string, rawValues: string[]): FieldSpec => {
+  const values = rawValues.map(value => (value || '').trim()).filter(value => value !== '');
+
+  if (values.length === 0) {
+    return { name, type: 'text' };
+  }
+
+  if (values.every(isBoolean)) {
+    return { name, type: 'boolean' };
+  }
+
+  // E.164 numbers like +491711234567 would otherwise be read as numbers
+  if (values.every(value => value.startsWith('+') && isPhone(value))) {
+    return { name, type: 'phone_number' };
+  }
+
+  if (isDigitCode(values)) {
+    return values.every(isPhone) ? { name, type: 'phone_number' } : { name, type: 'text' };
+  }
+
+  // Numbers and dates are read in the locale the column is written in
+  const locale = detectValueLocale(values);
+
+  if (values.every(value => parseLocaleNumber(value, locale) !== null)) {
+    const decimals = values.reduce((max, value) => Math.max(max, countDecimalPlaces(value, locale)), 0);
+    return { name, type: 'number', numberDecimalPlaces: Math.min(decimals, PROFILE_LIMITS.MAX_DECIMAL_PLACES), locale };
+  }
+
+  if (values.every(value => parseLocaleDate(value, locale) !== null)) {
+    const includeTime = values.some(value => parseLocaleDate(value, locale)?.hasTime);
+    const dateFormat = values.every(value => parseIsoDate(value) !== null) ? 'ISO' : locale === 'en' ? 'US' : 'EU';
+    return { name, type: 'date', dateFormat, dateIncludeTime: includeTime, locale };
+  }
+
+  if (values.every(isEmail)) {
+    return { name, type: 'email' };
+  }
+
+  if (values.every(isUrl)) {
+    return { name, type: 'url' };
+  }
+
+  if (values.every(isPhone)) {
+    return { name, type: 'phone_number' };
+  }
+
+  if (values.some(value => value.length > PROFILE_LIMITS.MAX_TEXT_LENGTH || /[\r\n]/.test(value))) {
+    return { name, type: 'long_text' };
+  }
+
+  // Few distinct values that repeat a lot make a good single select
+  const distinct = [...new Set(values)];
+  if (
+    values.length >= PROFILE_LIMITS.MIN_SELECT_VALUES &&
+    distinct.length <= PROFILE_LIMITS.MAX_SELECT_OPTIONS &&
+    distinct.length / values.length <= PROFILE_LIMITS.MAX_SELECT_RATIO &&
+    distinct.every(value => value.length <= PROFILE_LIMITS.MAX_SELECT_OPTION_LENGTH)
+  ) {
+    return { name, type: 'single_select', selectOptions: distinct.sort((a, b) => a.localeCompare(b)) };
+  }
+
+  return { name, type: 'text' };
+};
+
+// Build the Baserow API payload for creating (or converting) a field
+export const toFieldPayload = (spec: FieldSpec): Record<string, unknown> => {
+  const payload: Record<string, unknown> = { name: spec.name, type: spec.type };
+
+  switch (spec.type) {
+    case 'number':
+      payload.number_decimal_places = spec.numberDecimalPlaces ?? 0;
+      payload.number_negative = true;
+      break;
+    case 'date':
+      payload.date_format = spec.dateFormat || 'EU';
+      payload.date_include_time = !!spec.dateIncludeTime;
+      payload.date_time_format = '24';
+      break;
+    case 'single_select':
+    case 'multiple_select':
+      payload.select_options = (spec.selectOptions || []).map((value, index) => ({
+        value,
+        color: SELECT_COLORS[index % SELECT_COLORS.length],
+      }));
+      break;
+  }
+
+  return payload;
+};
+
+// Convert a raw cell value to the representation Baserow expects for the field type.
+// Select values are returned as option text and resolved to option ids by the caller.
+export const convertValue = (rawValue: string, spec: FieldSpec): ConvertedValue => {
+  const value = (rawValue || '').trim();
+
+  switch (spec.type) {
+    case 'number': {
+      const parsed = parseLocaleNumber(value, spec.locale);
+      if (parsed === null) return { value, valid: false };
+      const decimals = spec.numberDecimalPlaces ?? 0;
+      const fixed = parsed.toFixed(decimals);
+      return { value: fixed, valid: true, rounded: Number(fixed) !== parsed };
+    }
+    case 'boolean': {
+      const parsed = parseBoolean(value);
+      return parsed === null ? { value, valid: false } : { value: parsed, valid: true };
+    }
+    case 'date': {
+      // Excel exports dates as serial numbers
+      const parsed = parseLocaleDate(value, spec.locale) || parseExcelSerialDate(value);
+      if (!parsed) return { value, valid: false };
+      return { value: formatDateValue(parsed, !!spec.dateIncludeTime), valid: true };
+    }
+    case 'email':
+      return { value, valid: isEmail(value) };
+    case 'url':
+      return { value, valid: isUrl(value) };
+    case 'phone_number':
+      return { value, valid: PHONE_PATTERN.test(value) };
+    case 'single_select':
+      return { value, valid: !spec.selectOptions || spec.selectOptions.includes(value) };
+    case 'multiple_select': {
+      const items = value.split(/[,;]/).map(item => item.trim()).filter(Boolean);
+      return { value: items, valid: !spec.selectOptions || items.every(item => spec.selectOptions.includes(item)) };
+    }
+    default:
+      return { value, valid: true };
+  }
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Baserow expects ISO dates, with a UTC timestamp when the field includes time
+const formatDateValue = (date: ParsedDate, includeTime: boolean): string => {
+  const day = `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+  if (!includeTime) return day;
+  // Values that name their zone are moved to UTC from it, all others are wall-clock times of the user's time zone
+  const timestamp = date.utcOffset !== undefined
+    ? Date.UTC(date.year, date.month - 1, date.day, date.hour, date.minute, date.second) - date.utcOffset * 60 * 1000
+    : new Date(date.year, date.month - 1, date.day, date.hour, date.minute, date.second).getTime();
+  return new Date(timestamp).toISOString().replace(/\.\d{3}Z$/, 'Z');
+};
@@ -1,8 +1,13 @@
 /**
  * Enhanced file storage utility using IndexedDB for large files
  * This eliminates the need for proxy server by storing large files locally
+ * It also keeps the checkpoints of running imports so they can be resumed after a reload
  */
 
+import type { ImportOptions, FailedRecord } from './baserowApi';
+import type { FieldSpec } from './fieldTypes';
+import type { ExtraColumn } from './extraColumns';
+
 interface StoredFileData {
   id: string;
   content: string;
@@ -15,10 +20,34 @@ interface StoredFileData {
   };
 }
 
+// Checkpoint of an import, updated after every confirmed batch
+export interface ImportJob {
+  id: string;
+  recordId: number; // Upload record the file belongs to
+  fileName: string;
+  tableId: string;
+  tableName: string;
+  mappings: Record<string, string>;
+  options: ImportOptions;
+  fieldSpecs: FieldSpec[];
+  extras?: ExtraColumn[]; // Extra columns as resolved at the start (file name, import time), reused on resume
+  existingRowCount: number; // Rows in the target table before the import started
+  totalBatches: number;
+  completedBatches: number[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  failedRecords: FailedRecord[];
+  createdAt: number;
+  updatedAt: number;
+}
+
 class FileStorageManager {
   private dbName = 'BaserowFileStorage';
-  private dbVersion = 2; // Increment version to force database recreation
+  private dbVersion = 3; // Increment version to force database recreation
   private storeName = 'files';
+  private jobStoreName = 'importJobs';
   private db: IDBDatabase | null = null;
 
   async reinitializeDB(): Promise<void> {
@@ -43,7 +72,7 @@ class FileStorageManager {
   }
 
   private async openDB(): Promise<IDBDatabase> {
-    if (this.db && this.db.objectStoreNames.contains(this.storeName)) {
+    if (this.db && this.db.objectStoreNames.contains(this.storeName) && this.db.objectStoreNames.contains(this.jobStoreName)) {
       return this.db;
     }
 
@@ -74,6 +103,12 @@ class FileStorageManager {
           store.createIndex('recordId', 'metadata.recordId', { unique: false });
           store.createIndex('timestamp', 'metadata.timestamp', { unique: false });
         }
+        
+        // Import checkpoints (added in version 3)
+        if (!db.objectStoreNames.contains(this.jobStoreName)) {
+          const jobStore = db.createObjectStore(this.jobStoreName, { keyPath: 'id' });
+          jobStore.createIndex('recordId', 'recordId', { unique: false });
+        }
       };
     });
   }
@@ -262,6 +297,73 @@ class FileStorageManager {
     }
   }
 
+  async saveJob(job: ImportJob): Promise<void> {
+    const db = await this.openDB();
+    const transaction = db.transaction([this.jobStoreName], 'readwrite');
+    const store = transaction.objectStore(this.jobStoreName);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put({ ...job, updatedAt: Date.now() });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(new Error('Transaction aborted'));
+    });
+  }
+
+  async getJob(jobId: string): Promise<ImportJob | null> {
+    try {
+      const db = await this.openDB();
+      const transaction = db.transaction([this.jobStoreName], 'readonly');
+      const store = transaction.objectStore(this.jobStoreName);
+
+      return new Promise<ImportJob | null>((resolve, reject) => {
+        const request = store.get(jobId);
+        request.onsuccess = () => resolve((request.result as ImportJob) || null);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Most recent unfinished import of an upload
+  async getJobForRecord(recordId: number): Promise<ImportJob | null> {
+    try {
+      const db = await this.openDB();
+      const transaction = db.transaction([this.jobStoreName], 'readonly');
+      const index = transaction.objectStore(this.jobStoreName).index('recordId');
+
+      return new Promise<ImportJob | null>((resolve, reject) => {
+        const request = index.getAll(recordId);
+        request.onsuccess = () => {
+          const jobs = request.result as ImportJob[];
+          resolve(jobs.sort((a, b) => b.updatedAt - a.updatedAt)[0] || null);
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    try {
+      const db = await this.openDB();
+      const transaction = db.transaction([this.jobStoreName], 'readwrite');
+      const store = transaction.objectStore(this.jobStoreName);
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.delete(jobId);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      // A leftover job is only offered for resuming again
+    }
+  }
+
   async getStorageInfo(): Promise<{ used: number; available: number }> {
     try {
       if ('storage' in navigator && 'estimate' in navigator.storage) {
@@ -0,0 +1,77 @@
+/**
+ * Learned column associations
+ * Records the mappings users confirm (source column -> target column) in localStorage
+ * and provides them to smartMatch as weighted synonyms.
+ */
+
+import { LearnedSynonyms, normalizeColumnName } from './stringMatching';
+
+export interface LearnedMapping {
+  sourceColumn: string; // Normalised source column
+  targetColumn: string;
+  weight: number; // Number of confirmations, reduced when another target is confirmed
+  updatedAt: number;
+}
+
+const STORAGE_KEY = 'learnedMappings';
+
+// Repeated confirmations stop adding confidence beyond this weight
+const MAX_WEIGHT = 10;
+
+export const getLearnedMappings = (): LearnedMapping[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const storeLearnedMappings = (learned: LearnedMapping[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(learned));
+};
+
+// Learned mappings in the lookup form used by smartMatch
+export const getLearnedSynonyms = (): LearnedSynonyms => {
+  const synonyms: LearnedSynonyms = {};
+  getLearnedMappings().forEach(({ sourceColumn, targetColumn, weight }) => {
+    synonyms[sourceColumn] = { ...synonyms[sourceColumn], [targetColumn]: weight };
+  });
+  return synonyms;
+};
+
+// Record confirmed mappings (source column -> existing target column). A confirmation
+// strengthens its association and weakens other targets learned for the same source.
+export const recordMappingDecisions = (mappings: Record<string, string>) => {
+  let learned = getLearnedMappings();
+  const now = Date.now();
+
+  Object.entries(mappings).forEach(([userColumn, targetColumn]) => {
+    const sourceColumn = normalizeColumnName(userColumn);
+    learned = learned
+      .map(entry => {
+        if (entry.sourceColumn !== sourceColumn) return entry;
+        if (entry.targetColumn === targetColumn) {
+          return { ...entry, weight: Math.min(MAX_WEIGHT, entry.weight + 1), updatedAt: now };
+        }
+        return { ...entry, weight: entry.weight - 1 };
+      })
+      .filter(entry => entry.weight > 0);
+
+    if (!learned.some(entry => entry.sourceColumn === sourceColumn && entry.targetColumn === targetColumn)) {
+      learned.push({ sourceColumn, targetColumn, weight: 1, updatedAt: now });
+    }
+  });
+
+  storeLearnedMappings(learned);
+};
+
+export const deleteLearnedMapping = (sourceColumn: string, targetColumn: string) => {
+  storeLearnedMappings(getLearnedMappings().filter(entry =>
+    entry.sourceColumn !== sourceColumn || entry.targetColumn !== targetColumn
+  ));
+};
+
+export const clearLearnedMappings = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
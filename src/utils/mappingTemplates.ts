@@ -0,0 +1,111 @@
+/**
+ * Saved mapping templates
+ * Stores the column mapping of a file layout in localStorage so recurring files
+ * (e.g. weekly supplier exports) can be mapped again in one click.
+ */
+
+import { BaserowFieldType, FieldOptions } from './fieldTypes';
+import { ColumnRules } from './columnRules';
+
+// Mapping of one source column; a null target column adds the column under its own name
+export interface TemplateColumn {
+  targetColumn: string | null;
+  isIgnored: boolean;
+  fieldType: BaserowFieldType;
+  fieldOptions: FieldOptions;
+}
+
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  signature: string; // Header signature of the file the template was saved from
+  columns: Record<string, TemplateColumn>; // Keyed by source header
+  columnRules?: ColumnRules;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TemplateMatch {
+  template: MappingTemplate;
+  score: number; // Share of headers shared with the file, 100 for the same layout
+}
+
+const STORAGE_KEY = 'mappingTemplates';
+
+// Templates sharing at least this share of headers with a file are suggested
+const SUGGESTION_THRESHOLD = 80;
+
+// Normalise a header so spelling differences in case and spacing do not matter
+const normalizeHeader = (header: string): string => header.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Order-independent signature of a header row
+export const getHeaderSignature = (headers: string[]): string => {
+  return JSON.stringify([...new Set(headers.map(normalizeHeader))].sort());
+};
+
+export const getMappingTemplates = (): MappingTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const storeMappingTemplates = (templates: MappingTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Save a template; a template with the same name is overwritten
+export const saveMappingTemplate = (
+  name: string,
+  headers: string[],
+  columns: Record<string, TemplateColumn>,
+  columnRules: ColumnRules = {}
+): MappingTemplate => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Bitte geben Sie einen Namen für die Vorlage ein.');
+  }
+
+  const templates = getMappingTemplates();
+  const existing = templates.find(template => template.name.toLowerCase() === trimmedName.toLowerCase());
+  const now = Date.now();
+  const template: MappingTemplate = {
+    id: existing?.id || `template_${now}`,
+    name: trimmedName,
+    signature: getHeaderSignature(headers),
+    columns,
+    columnRules,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  storeMappingTemplates([...templates.filter(candidate => candidate.id !== template.id), template]);
+  return template;
+};
+
+export const deleteMappingTemplate = (id: string) => {
+  storeMappingTemplates(getMappingTemplates().filter(template => template.id !== id));
+};
+
+// Templates whose header signature matches the file, best match first
+export const findMatchingTemplates = (headers: string[]): TemplateMatch[] => {
+  const fileHeaders = new Set(headers.map(normalizeHeader));
+  return getMappingTemplates()
+    .map(template => {
+      const templateHeaders: string[] = JSON.parse(template.signature);
+      const shared = templateHeaders.filter(header => fileHeaders.has(header)).length;
+      const total = new Set([...templateHeaders, ...fileHeaders]).size;
+      return { template, score: total > 0 ? Math.round((shared / total) * 100) : 0 };
+    })
+    .filter(match => match.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score || b.template.updatedAt - a.template.updatedAt);
+};
+
+// Template column for a file header, compared like the signature
+export const getTemplateColumn = (template: MappingTemplate, header: string): TemplateColumn | undefined => {
+  const normalized = normalizeHeader(header);
+  const key = Object.keys(template.columns).find(column => normalizeHeader(column) === normalized);
+  return key ? template.columns[key] : undefined;
+};
@@ -0,0 +1,121 @@
+/**
+ * Phone number normalisation
+ * Reads phone numbers written as "0171 1234567", "+49 (0)30/123-45" or "0049301234",
+ * checks their length and writes them as E.164 (+491711234567) or in national format.
+ */
+
+export type PhoneFormat = 'e164' | 'national';
+
+export interface PhoneCountry {
+  code: string; // ISO 3166 country code
+  label: string;
+  callingCode: string;
+  trunkPrefix: string; // Dialled before national numbers, e.g. the 0 in 030
+  minLength: number; // Digits of the national number without trunk prefix
+  maxLength: number;
+}
+
+export interface ParsedPhoneNumber {
+  country: PhoneCountry | null; // null for calling codes not in the list
+  callingCode: string;
+  nationalNumber: string; // All digits after the country code for unknown countries
+}
+
+export const DEFAULT_PHONE_COUNTRY = 'DE';
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'DE', label: 'Deutschland (+49)', callingCode: '49', trunkPrefix: '0', minLength: 6, maxLength: 13 },
+  { code: 'AT', label: 'Österreich (+43)', callingCode: '43', trunkPrefix: '0', minLength: 4, maxLength: 13 },
+  { code: 'CH', label: 'Schweiz (+41)', callingCode: '41', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  { code: 'NL', label: 'Niederlande (+31)', callingCode: '31', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  { code: 'FR', label: 'Frankreich (+33)', callingCode: '33', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  { code: 'GB', label: 'Großbritannien (+44)', callingCode: '44', trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  { code: 'US', label: 'USA/Kanada (+1)', callingCode: '1', trunkPrefix: '1', minLength: 10, maxLength: 10 },
+];
+
+export const PHONE_COUNTRY_OPTIONS = PHONE_COUNTRIES.map(country => ({ value: country.code, label: country.label }));
+
+export const PHONE_FORMAT_OPTIONS: Array<{ value: PhoneFormat, label: string }> = [
+  { value: 'e164', label: 'International (+491711234567)' },
+  { value: 'national', label: 'National (0171 1234567)' },
+];
+
+// Digits, spaces and the usual separators; "(0)" is removed before the check
+const PHONE_CHARACTERS = /^\+?[\d\s()/.-]+$/;
+// Separators that mark a national number written without trunk prefix as a phone number
+const PHONE_SEPARATORS = /[\s/()-]/;
+// E.164 allows at most 15 digits including the country code
+const MIN_INTERNATIONAL_LENGTH = 8;
+const MAX_INTERNATIONAL_LENGTH = 15;
+
+const getCountry = (code: string) => PHONE_COUNTRIES.find(country => country.code === code) || PHONE_COUNTRIES[0];
+
+const isValidLength = (nationalNumber: string, country: PhoneCountry) => {
+  return nationalNumber.length >= country.minLength && nationalNumber.length <= country.maxLength;
+};
+
+// Read a phone number; numbers without country code belong to the default country.
+// Returns null when the value is no phone number or its length does not fit the country.
+export const parsePhoneNumber = (rawValue: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): ParsedPhoneNumber | null => {
+  // "+49 (0)30" repeats the trunk prefix for callers inside the country
+  const value = (rawValue || '').trim().replace(/\(0\)/g, '');
+  if (!PHONE_CHARACTERS.test(value)) return null;
+
+  const digits = value.replace(/\D/g, '');
+  const international = value.startsWith('+') ? digits : digits.startsWith('00') ? digits.slice(2) : null;
+
+  if (international === null) {
+    const country = getCountry(defaultCountry);
+    // Bare digits without trunk prefix are customer numbers, IDs or amounts rather than phone numbers
+    if (!digits.startsWith(country.trunkPrefix) && !PHONE_SEPARATORS.test(value)) return null;
+    const nationalNumber = digits.startsWith(country.trunkPrefix) ? digits.slice(country.trunkPrefix.length) : digits;
+    return isValidLength(nationalNumber, country) ? { country, callingCode: country.callingCode, nationalNumber } : null;
+  }
+
+  const country = PHONE_COUNTRIES.find(candidate => international.startsWith(candidate.callingCode));
+  if (!country) {
+    return international.length >= MIN_INTERNATIONAL_LENGTH && international.length <= MAX_INTERNATIONAL_LENGTH
+      ? { country: null, callingCode: '', nationalNumber: international }
+      : null;
+  }
+
+  // A trunk prefix after the country code (+49 030...) is dropped as well
+  let nationalNumber = international.slice(country.callingCode.length);
+  if (country.trunkPrefix === '0' && nationalNumber.startsWith('0')) {
+    nationalNumber = nationalNumber.slice(1);
+  }
+  return isValidLength(nationalNumber, country) ? { country, callingCode: country.callingCode, nationalNumber } : null;
+};
+
+// German area codes have two to five digits and cannot be told apart without the full list,
+// so only mobile numbers and the two-digit city codes are grouped
+const formatGermanNumber = (nationalNumber: string) => {
+  const areaCodeLength = /^1[5-7]/.test(nationalNumber) ? 3 : /^(30|40|69|89)/.test(nationalNumber) ? 2 : 0;
+  return areaCodeLength > 0
+    ? `0${nationalNumber.slice(0, areaCodeLength)} ${nationalNumber.slice(areaCodeLength)}`
+    : `0${nationalNumber}`;
+};
+
+const NATIONAL_FORMATTERS: Record<string, (nationalNumber: string) => string> = {
+  DE: formatGermanNumber,
+  US: nationalNumber => `(${nationalNumber.slice(0, 3)}) ${nationalNumber.slice(3, 6)}-${nationalNumber.slice(6)}`,
+};
+
+export const formatPhoneNumber = (parsed: ParsedPhoneNumber, format: PhoneFormat, defaultCountry: string = DEFAULT_PHONE_COUNTRY): string => {
+  const e164 = `+${parsed.callingCode}${parsed.nationalNumber}`;
+  if (format === 'e164' || !parsed.country) return e164;
+
+  // Numbers of other countries keep their country code in the national format
+  const { country } = parsed;
+  if (country.code !== defaultCountry) {
+    return `+${country.callingCode} ${parsed.nationalNumber}`;
+  }
+  const formatNational = NATIONAL_FORMATTERS[country.code];
+  return formatNational ? formatNational(parsed.nationalNumber) : `${country.trunkPrefix}${parsed.nationalNumber}`;
+};
+
+// Normalise a phone number; values that cannot be read are returned unchanged
+export const normalizePhoneNumber = (value: string, format: PhoneFormat = 'e164', defaultCountry: string = DEFAULT_PHONE_COUNTRY): string => {
+  const parsed = parsePhoneNumber(value, defaultCountry);
+  return parsed ? formatPhoneNumber(parsed, format, defaultCountry) : value;
+};
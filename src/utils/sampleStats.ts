@@ -0,0 +1,22 @@
+/**
+ * Statistics of sample values
+ * Summarises the first rows of a source column for the mapping page.
+ */
+
+export interface ColumnStats {
+  examples: string[]; // First distinct non-empty values
+  distinctCount: number;
+  emptyRatio: number; // Percentage of empty values
+}
+
+const MAX_EXAMPLES = 3;
+
+export const getColumnStats = (values: string[]): ColumnStats => {
+  const filled = values.map(value => (value ?? '').trim()).filter(value => value !== '');
+  const distinct = [...new Set(filled)];
+  return {
+    examples: distinct.slice(0, MAX_EXAMPLES),
+    distinctCount: distinct.length,
+    emptyRatio: values.length > 0 ? Math.round(((values.length - filled.length) / values.length) * 100) : 0,
+  };
+};
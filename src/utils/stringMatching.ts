@@ -25,25 +25,152 @@ export const levenshteinDistance = (str1: string, str2: string): number => {
   return matrix[str2.length][str1.length];
 };
 
-// Calculate similarity percentage
-export const calculateSimilarity = (str1: string, str2: string): number => {
-  const normalizedStr1 = str1.toLowerCase().trim();
-  const normalizedStr2 = str2.toLowerCase().trim();
+// Levenshtein similarity percentage of two strings as they are
+export const levenshteinSimilarity = (str1: string, str2: string): number => {
+  if (str1 === str2) return 100;
   
-  if (normalizedStr1 === normalizedStr2) return 100;
-  
-  const maxLength = Math.max(normalizedStr1.length, normalizedStr2.length);
-  const distance = levenshteinDistance(normalizedStr1, normalizedStr2);
+  const maxLength = Math.max(str1.length, str2.length);
+  const distance = levenshteinDistance(str1, str2);
   
   return Math.round(((maxLength - distance) / maxLength) * 100);
 };
 
+// Jaro-Winkler similarity (0-1); rewards a common prefix, which suits abbreviated column names
+export const jaroWinkler = (str1: string, str2: string): number => {
+  if (str1 === str2) return 1;
+  if (str1.length === 0 || str2.length === 0) return 0;
+  
+  const matchWindow = Math.max(0, Math.floor(Math.max(str1.length, str2.length) / 2) - 1);
+  const matched1 = new Array(str1.length).fill(false);
+  const matched2 = new Array(str2.length).fill(false);
+  let matches = 0;
+  
+  for (let i = 0; i < str1.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, str2.length);
+    for (let j = start; j < end; j++) {
+      if (matched2[j] || str1[i] !== str2[j]) continue;
+      matched1[i] = true;
+      matched2[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+  
+  // Matched characters that appear in a different order
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < str1.length; i++) {
+    if (!matched1[i]) continue;
+    while (!matched2[k]) k++;
+    if (str1[i] !== str2[k]) transpositions++;
+    k++;
+  }
+  
+  const jaro = (matches / str1.length + matches / str2.length + (matches - transpositions / 2) / matches) / 3;
+  
+  let prefix = 0;
+  while (prefix < Math.min(4, str1.length, str2.length) && str1[prefix] === str2[prefix]) prefix++;
+  
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// Words that carry no meaning in column names
+const STOP_WORDS = [
+  'der', 'die', 'das', 'des', 'dem', 'den', 'und', 'oder', 'von', 'vom', 'zu', 'zum', 'zur', 'für', 'fuer', 'mit',
+  'the', 'of', 'and', 'or', 'a', 'an', 'to', 'for', 'in', 'with',
+];
+
+// Split a column name into normalised tokens: camelCase and separators split words,
+// umlauts and ß are folded, stop words are dropped (unless nothing else is left)
+export const tokenizeColumnName = (column: string): string[] => {
+  const tokens = column
+    .replace(/([a-zäöü])([A-ZÄÖÜ])/g, '$1 $2')
+    .replace(/([A-ZÄÖÜ]+)([A-ZÄÖÜ][a-zäöü])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const meaningful = tokens.filter(token => !STOP_WORDS.includes(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+};
+
+// Token-set similarity: word order and repeated words do not matter, shared words count fully
+export const tokenSetSimilarity = (tokens1: string[], tokens2: string[]): number => {
+  const set1 = [...new Set(tokens1)].sort();
+  const set2 = [...new Set(tokens2)].sort();
+  const common = set1.filter(token => set2.includes(token));
+  const rest1 = set1.filter(token => !common.includes(token));
+  const rest2 = set2.filter(token => !common.includes(token));
+  
+  const base = common.join(' ');
+  const combined1 = [base, ...rest1].filter(Boolean).join(' ');
+  const combined2 = [base, ...rest2].filter(Boolean).join(' ');
+  
+  const scores = [levenshteinSimilarity(combined1, combined2)];
+  if (base) {
+    scores.push(levenshteinSimilarity(base, combined1), levenshteinSimilarity(base, combined2));
+  }
+  return Math.max(...scores);
+};
+
+// Weights of the single algorithms in the composite similarity
+export interface MatchWeights {
+  levenshtein: number;
+  tokenSet: number;
+  jaroWinkler: number;
+}
+
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  levenshtein: 0.3,
+  tokenSet: 0.4,
+  jaroWinkler: 0.3,
+};
+
+// Names written as one word or as separate words ("E-Mail" and "Email"): a strong but unlocked match
+const COMPOUND_WORD_SIMILARITY = 95;
+
+// Calculate similarity percentage: names that are equal after normalisation (spacing, word order,
+// umlauts) score 100, all others get the weighted composite of the single algorithms
+export const calculateSimilarity = (str1: string, str2: string, weights: MatchWeights = DEFAULT_MATCH_WEIGHTS): number => {
+  const tokens1 = tokenizeColumnName(str1);
+  const tokens2 = tokenizeColumnName(str2);
+  
+  // Names without letters or digits ("#", "%") only match when they are written the same
+  if (tokens1.length === 0 || tokens2.length === 0) {
+    return str1.trim() !== '' && str1.trim() === str2.trim() ? 100 : 0;
+  }
+  if ([...tokens1].sort().join(' ') === [...tokens2].sort().join(' ')) return 100;
+  if (tokens1.join('') === tokens2.join('')) return COMPOUND_WORD_SIMILARITY;
+  
+  const normalizedStr1 = tokens1.join(' ');
+  const normalizedStr2 = tokens2.join(' ');
+  const totalWeight = weights.levenshtein + weights.tokenSet + weights.jaroWinkler;
+  if (totalWeight <= 0) return levenshteinSimilarity(normalizedStr1, normalizedStr2);
+  
+  const score =
+    weights.levenshtein * levenshteinSimilarity(normalizedStr1, normalizedStr2) +
+    weights.tokenSet * tokenSetSimilarity(tokens1, tokens2) +
+    weights.jaroWinkler * jaroWinkler(normalizedStr1, normalizedStr2) * 100;
+  
+  // Only equal names reach 100, since 100 % matches are locked in the mapping
+  return Math.min(99, Math.round(score / totalWeight));
+};
+
 // Find best matches for a column
-export const findBestMatches = (userColumn: string, targetColumns: string[]): Array<{column: string, similarity: number}> => {
+export const findBestMatches = (
+  userColumn: string,
+  targetColumns: string[],
+  weights: MatchWeights = DEFAULT_MATCH_WEIGHTS
+): Array<{column: string, similarity: number}> => {
   return targetColumns
     .map(column => ({
       column,
-      similarity: calculateSimilarity(userColumn, column)
+      similarity: calculateSimilarity(userColumn, column, weights)
     }))
     .sort((a, b) => b.similarity - a.similarity);
 };
@@ -58,30 +185,152 @@ export const COLUMN_VARIATIONS: Record<string, string[]> = {
   'address': ['adresse', 'street', 'strasse', 'location'],
 };
 
-// Smart matching with common variations
-export const smartMatch = (userColumn: string, targetColumns: string[]): string | null => {
-  const normalizedUser = userColumn.toLowerCase().trim();
-  
-  // Direct match first
-  const directMatch = targetColumns.find(col => col.toLowerCase().trim() === normalizedUser);
-  if (directMatch) return directMatch;
-  
-  // Check variations
+// Learned synonyms from confirmed mappings: normalised source column -> target column -> weight
+export type LearnedSynonyms = Record<string, Record<string, number>>;
+
+// Normalise a column name for lookups: trim, collapse whitespace and ignore case
+export const normalizeColumnName = (column: string): string => column.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Confidence of a learned association, growing with every confirmation. It stays below 100
+// because 100 % matches are locked in the mapping and a learned one must remain correctable.
+export const getLearnedConfidence = (weight: number): number => Math.min(95, 70 + weight * 10);
+
+// Target column most often confirmed for this source column
+export const findLearnedMatch = (
+  userColumn: string,
+  targetColumns: string[],
+  learnedSynonyms: LearnedSynonyms = {}
+): {column: string, similarity: number} | null => {
+  const learned = learnedSynonyms[normalizeColumnName(userColumn)] || {};
+  const best = targetColumns
+    .filter(column => (learned[column] || 0) > 0)
+    .sort((a, b) => learned[b] - learned[a])[0];
+  return best ? { column: best, similarity: getLearnedConfidence(learned[best]) } : null;
+};
+
+// Target columns that are a known variation of the user column, in order of COLUMN_VARIATIONS
+// (compared in normalised form, so "E-Mail" and "e_mail" are the same)
+export const findSynonymMatches = (userColumn: string, targetColumns: string[]): string[] => {
+  const normalizedUser = tokenizeColumnName(userColumn).join(' ');
+  const compactUser = normalizedUser.replace(/ /g, '');
+  const matches: string[] = [];
   for (const [standard, variations] of Object.entries(COLUMN_VARIATIONS)) {
-    if (variations.includes(normalizedUser) || normalizedUser.includes(standard)) {
-      const match = targetColumns.find(col => 
-        col.toLowerCase().includes(standard) || 
-        variations.some(v => col.toLowerCase().includes(v))
-      );
-      if (match) return match;
+    const normalizedVariations = variations.map(variation => tokenizeColumnName(variation).join(' '));
+    if (normalizedVariations.includes(normalizedUser) || compactUser.includes(standard)) {
+      targetColumns
+        .filter(col => {
+          const normalizedCol = tokenizeColumnName(col).join(' ');
+          return normalizedCol.replace(/ /g, '').includes(standard) ||
+            normalizedVariations.some(v => normalizedCol.includes(v));
+        })
+        .forEach(col => {
+          if (!matches.includes(col)) matches.push(col);
+        });
     }
   }
+  return matches;
+};
+
+// Smart matching with learned synonyms and common variations
+export const smartMatch = (
+  userColumn: string,
+  targetColumns: string[],
+  learnedSynonyms: LearnedSynonyms = {},
+  weights: MatchWeights = DEFAULT_MATCH_WEIGHTS
+): string | null => {
+  // Direct match first (equal after normalisation)
+  const directMatch = targetColumns.find(col => calculateSimilarity(userColumn, col, weights) === 100);
+  if (directMatch) return directMatch;
+  
+  // Associations users confirmed before win over the static variations
+  const learnedMatch = findLearnedMatch(userColumn, targetColumns, learnedSynonyms);
+  if (learnedMatch) return learnedMatch.column;
+  
+  // Check variations
+  const [synonymMatch] = findSynonymMatches(userColumn, targetColumns);
+  if (synonymMatch) return synonymMatch;
   
   // Fuzzy matching as fallback
-  const bestMatches = findBestMatches(userColumn, targetColumns);
+  const bestMatches = findBestMatches(userColumn, targetColumns, weights);
   if (bestMatches.length > 0 && bestMatches[0].similarity >= 70) {
     return bestMatches[0].column;
   }
   
   return null;
 };
+
+// Why a target column was proposed
+export type MatchReason = 'exact' | 'synonym' | 'fuzzy' | 'learned' | 'content';
+
+export const MATCH_REASON_LABELS: Record<MatchReason, string> = {
+  exact: 'Exakt',
+  synonym: 'Synonym',
+  fuzzy: 'Ähnlicher Name',
+  learned: 'Gelernt',
+  content: 'Inhalt',
+};
+
+export interface MatchCandidate {
+  column: string;
+  similarity: number;
+  reason: MatchReason;
+  detail?: string; // E.g. how often a learned mapping was confirmed
+}
+
+// Score of a known variation, unless the names are even more similar
+const SYNONYM_SIMILARITY = 90;
+
+// Order of equally scored candidates, following the precedence in smartMatch
+const REASON_PRIORITY: MatchReason[] = ['exact', 'learned', 'synonym', 'content', 'fuzzy'];
+
+// Keep the best scored candidate per target column, best first
+export const mergeMatchCandidates = (...lists: MatchCandidate[][]): MatchCandidate[] => {
+  const best = new Map<string, MatchCandidate>();
+  lists.flat().forEach(candidate => {
+    const current = best.get(candidate.column);
+    if (!current || candidate.similarity > current.similarity) {
+      best.set(candidate.column, candidate);
+    }
+  });
+  return [...best.values()].sort((a, b) =>
+    b.similarity - a.similarity || REASON_PRIORITY.indexOf(a.reason) - REASON_PRIORITY.indexOf(b.reason)
+  );
+};
+
+// All target columns ranked by their score for the user column, with the reason of each score
+export const rankMatchCandidates = (
+  userColumn: string,
+  targetColumns: string[],
+  learnedSynonyms: LearnedSynonyms = {},
+  weights: MatchWeights = DEFAULT_MATCH_WEIGHTS
+): MatchCandidate[] => {
+  const learned = learnedSynonyms[normalizeColumnName(userColumn)] || {};
+  const synonyms = findSynonymMatches(userColumn, targetColumns);
+
+  const byName: MatchCandidate[] = findBestMatches(userColumn, targetColumns, weights).map(({ column, similarity }) => ({
+    column,
+    similarity,
+    reason: similarity === 100 ? 'exact' : 'fuzzy',
+  }));
+  const bySynonym: MatchCandidate[] = synonyms.map(column => ({
+    column,
+    similarity: SYNONYM_SIMILARITY,
+    reason: 'synonym',
+  }));
+  const byLearned: MatchCandidate[] = targetColumns
+    .filter(column => (learned[column] || 0) > 0)
+    .map(column => ({
+      column,
+      similarity: getLearnedConfidence(learned[column]),
+      reason: 'learned',
+      detail: `${learned[column]}× bestätigt`,
+    }));
+
+  return mergeMatchCandidates(byName, bySynonym, byLearned);
+};
+
+// Short text for a candidate, e.g. "Gelernt (3× bestätigt)"
+export const describeMatchCandidate = (candidate: MatchCandidate): string => {
+  const label = MATCH_REASON_LABELS[candidate.reason];
+  return candidate.detail ? `${label} (${candidate.detail})` : label;
+};
@@ -0,0 +1,133 @@
+/**
+ * Value transformations
+ * A chain of cleanup steps per source column (whitespace, case, find/replace, defaults, ...)
+ * applied to every value before it is merged, split and converted for the target field.
+ */
+
+import { DEFAULT_PHONE_COUNTRY, PhoneFormat, normalizePhoneNumber } from './phoneNumbers';
+import { EmailMultiple, cleanEmailCell } from './emailAddresses';
+
+export type TransformType =
+  | 'trim'
+  | 'uppercase'
+  | 'lowercase'
+  | 'titlecase'
+  | 'replace'
+  | 'regex_replace'
+  | 'default'
+  | 'prefix'
+  | 'suffix'
+  | 'null_tokens'
+  | 'phone'
+  | 'email';
+
+export interface TransformStep {
+  type: TransformType;
+  find?: string; // Text or regular expression to replace
+  replacement?: string;
+  value?: string; // Default, prefix or suffix
+  tokens?: string[]; // Values treated as empty
+  country?: string; // Country of phone numbers written without country code
+  format?: PhoneFormat;
+  multiple?: EmailMultiple; // Addresses kept of cells with several e-mail addresses
+}
+
+export const TRANSFORM_OPTIONS: Array<{ value: TransformType, label: string }> = [
+  { value: 'trim', label: 'Leerzeichen bereinigen' },
+  { value: 'uppercase', label: 'GROSSBUCHSTABEN' },
+  { value: 'lowercase', label: 'kleinbuchstaben' },
+  { value: 'titlecase', label: 'Wortanfänge Groß' },
+  { value: 'replace', label: 'Suchen und ersetzen' },
+  { value: 'regex_replace', label: 'Ersetzen (regulärer Ausdruck)' },
+  { value: 'null_tokens', label: 'Platzhalter als leer werten' },
+  { value: 'default', label: 'Standardwert wenn leer' },
+  { value: 'prefix', label: 'Präfix voranstellen' },
+  { value: 'suffix', label: 'Suffix anhängen' },
+  { value: 'phone', label: 'Telefonnummer normalisieren' },
+  { value: 'email', label: 'E-Mail-Adressen bereinigen' },
+];
+
+export const DEFAULT_NULL_TOKENS = ['n/a', 'na', '-', '--', 'null', 'none', 'k.a.', 'k. a.', 'unbekannt'];
+
+export const getTransformLabel = (type: TransformType): string => {
+  return TRANSFORM_OPTIONS.find(option => option.value === type)?.label || type;
+};
+
+export const createTransformStep = (type: TransformType): TransformStep => {
+  switch (type) {
+    case 'replace':
+    case 'regex_replace':
+      return { type, find: '', replacement: '' };
+    case 'default':
+    case 'prefix':
+    case 'suffix':
+      return { type, value: '' };
+    case 'null_tokens':
+      return { type, tokens: DEFAULT_NULL_TOKENS };
+    case 'phone':
+      return { type, country: DEFAULT_PHONE_COUNTRY, format: 'e164' };
+    case 'email':
+      return { type, multiple: 'first' };
+    default:
+      return { type };
+  }
+};
+
+// Regular expression of a step, null when it is not valid
+export const getStepRegex = (step: TransformStep): RegExp | null => {
+  try {
+    return new RegExp(step.find || '', 'g');
+  } catch (error) {
+    return null;
+  }
+};
+
+const toTitleCase = (value: string): string => {
+  return value.toLowerCase().replace(/(^|[\s\-/(])(\p{L})/gu, (_, boundary: string, letter: string) => boundary + letter.toUpperCase());
+};
+
+// Build a function that applies the steps in order; regular expressions are compiled once
+export const createTransformer = (steps: TransformStep[] = []): ((value: string) => string) => {
+  const operations: Array<(value: string) => string> = steps.map(step => {
+    switch (step.type) {
+      case 'trim':
+        return value => value.trim().replace(/\s+/g, ' ');
+      case 'uppercase':
+        return value => value.toUpperCase();
+      case 'lowercase':
+        return value => value.toLowerCase();
+      case 'titlecase':
+        return toTitleCase;
+      case 'replace':
+        return value => (step.find ? value.split(step.find).join(step.replacement || '') : value);
+      case 'regex_replace': {
+        // Invalid expressions leave the value unchanged; the mapping page reports them
+        const regex = step.find ? getStepRegex(step) : null;
+        return value => (regex ? value.replace(regex, step.replacement || '') : value);
+      }
+      case 'default':
+        return value => (value.trim() === '' ? step.value || '' : value);
+      case 'prefix':
+        return value => (value.trim() !== '' ? `${step.value || ''}${value}` : value);
+      case 'suffix':
+        return value => (value.trim() !== '' ? `${value}${step.value || ''}` : value);
+      case 'null_tokens': {
+        const tokens = new Set((step.tokens || []).map(token => token.trim().toLowerCase()));
+        return value => (tokens.has(value.trim().toLowerCase()) ? '' : value);
+      }
+      case 'phone':
+        // Numbers that cannot be read stay as they are, so the type check reports them
+        return value => normalizePhoneNumber(value, step.format, step.country);
+      case 'email':
+        return value => cleanEmailCell(value, step.multiple);
+      default:
+        return value => value;
+    }
+  });
+
+  return (value: string) => operations.reduce((current, operation) => operation(current), String(value ?? ''));
+};
+
+export const applyTransforms = (value: string, steps: TransformStep[] = []): string => {
+  return createTransformer(steps)(value);
+};
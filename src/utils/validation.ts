@@ -0,0 +1,133 @@
+/**
+ * Row validation
+ * Rules per target column (required, pattern, length, allowed values, e-mail, postal code)
+ * checked on every composed row before it is sent. Rows breaking an "error" rule are left out
+ * of the import, rows breaking a "warning" rule are imported and listed in the report.
+ */
+
+import { cleanEmailAddress, isValidEmailAddress } from './emailAddresses';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationRuleType =
+  | 'required'
+  | 'regex'
+  | 'min_length'
+  | 'max_length'
+  | 'allowed_values'
+  | 'email'
+  | 'postal_code';
+
+export interface ValidationRule {
+  column: string; // Target column
+  type: ValidationRuleType;
+  severity: ValidationSeverity;
+  pattern?: string;
+  length?: number;
+  allowedValues?: string[];
+}
+
+export interface ValidationIssue {
+  column: string;
+  type: ValidationRuleType;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// A row with the rules it broke, kept for the import report
+export interface ValidationFinding {
+  lineNumber: number;
+  values: string[]; // Original CSV values
+  issues: ValidationIssue[];
+}
+
+export const VALIDATION_RULE_OPTIONS: Array<{ value: ValidationRuleType, label: string }> = [
+  { value: 'required', label: 'Pflichtfeld' },
+  { value: 'email', label: 'Gültige E-Mail-Adresse' },
+  { value: 'postal_code', label: 'Deutsche Postleitzahl' },
+  { value: 'min_length', label: 'Mindestlänge' },
+  { value: 'max_length', label: 'Höchstlänge' },
+  { value: 'allowed_values', label: 'Erlaubte Werte' },
+  { value: 'regex', label: 'Regulärer Ausdruck' },
+];
+
+export const SEVERITY_OPTIONS: Array<{ value: ValidationSeverity, label: string }> = [
+  { value: 'error', label: 'Fehler – Zeile auslassen' },
+  { value: 'warning', label: 'Warnung – importieren und markieren' },
+];
+
+// Five digits; German postal codes start at 01001
+const POSTAL_CODE_PATTERN = /^(?!00)\d{5}$/;
+
+export const createValidationRule = (column: string, type: ValidationRuleType): ValidationRule => {
+  switch (type) {
+    case 'regex':
+      return { column, type, severity: 'error', pattern: '' };
+    case 'min_length':
+      return { column, type, severity: 'warning', length: 1 };
+    case 'max_length':
+      return { column, type, severity: 'warning', length: 255 };
+    case 'allowed_values':
+      return { column, type, severity: 'error', allowedValues: [] };
+    default:
+      return { column, type, severity: 'error' };
+  }
+};
+
+// Regular expression of a rule, null when it is not valid
+export const getRulePattern = (rule: ValidationRule): RegExp | null => {
+  try {
+    return new RegExp(rule.pattern || '');
+  } catch (error) {
+    return null;
+  }
+};
+
+// Check of one rule against a value; empty values only break the required rule
+const createRuleCheck = (rule: ValidationRule): ((value: string) => string | null) => {
+  switch (rule.type) {
+    case 'required':
+      return value => (value === '' ? 'Pflichtfeld ist leer' : null);
+    case 'email':
+      return value => (value !== '' && !isValidEmailAddress(cleanEmailAddress(value)) ? `„${value}“ ist keine gültige E-Mail-Adresse` : null);
+    case 'postal_code':
+      return value => (value !== '' && !POSTAL_CODE_PATTERN.test(value) ? `„${value}“ ist keine deutsche Postleitzahl` : null);
+    case 'min_length':
+      return value => (value !== '' && value.length < (rule.length ?? 0) ? `kürzer als ${rule.length} Zeichen` : null);
+    case 'max_length':
+      return value => (value !== '' && value.length > (rule.length ?? Infinity) ? `länger als ${rule.length} Zeichen` : null);
+    case 'allowed_values': {
+      const allowed = new Set((rule.allowedValues || []).map(item => item.trim().toLowerCase()));
+      return value => (value !== '' && allowed.size > 0 && !allowed.has(value.toLowerCase()) ? `„${value}“ ist kein erlaubter Wert` : null);
+    }
+    case 'regex': {
+      // Invalid expressions are skipped; the mapping page reports them
+      const pattern = rule.pattern ? getRulePattern(rule) : null;
+      return value => (pattern && value !== '' && !pattern.test(value) ? `„${value}“ passt nicht zum Muster` : null);
+    }
+    default:
+      return () => null;
+  }
+};
+
+// Build a function that checks a composed row against all rules; patterns are compiled once
+export const createRowValidator = (rules: ValidationRule[] = []): ((row: Record<string, string>) => ValidationIssue[]) => {
+  const checks = rules.map(rule => ({ rule, check: createRuleCheck(rule) }));
+  return (row: Record<string, string>) => {
+    const issues: ValidationIssue[] = [];
+    checks.forEach(({ rule, check }) => {
+      const message = check((row[rule.column] ?? '').trim());
+      if (message) {
+        issues.push({ column: rule.column, type: rule.type, severity: rule.severity, message });
+      }
+    });
+    return issues;
+  };
+};
+
+export const hasValidationErrors = (issues: ValidationIssue[]): boolean => issues.some(issue => issue.severity === 'error');
+
+// One line per finding for reports, e.g. "E-Mail: „x“ ist keine gültige E-Mail-Adresse"
+export const formatValidationIssues = (issues: ValidationIssue[]): string => {
+  return issues.map(issue => `${issue.column}: ${issue.message}`).join('; ');
+};
@@ -0,0 +1,179 @@
+/**
+ * Locale-aware value parsing
+ * Reads numbers, dates and booleans the way they are written in German and English files
+ * (1.234,56 and 31.12.2024 or 1,234.56 and 12/31/2024), plus ISO dates and Excel serial dates.
+ */
+
+export type ValueLocale = 'de' | 'en';
+
+export const DEFAULT_VALUE_LOCALE: ValueLocale = 'de';
+
+export const VALUE_LOCALE_OPTIONS: Array<{ value: ValueLocale; label: string }> = [
+  { value: 'de', label: 'Deutsch (1.234,56 · 31.12.2024)' },
+  { value: 'en', label: 'Englisch (1,234.56 · 12/31/2024)' },
+];
+
+export interface ParsedDate {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  hasTime: boolean;
+  utcOffset?: number; // Minutes ahead of UTC when the value names its zone (Z, +02:00)
+}
+
+export const TRUE_VALUES = ['true', 'yes', 'ja', 'wahr', 'y', 'j'];
+export const FALSE_VALUES = ['false', 'no', 'nein', 'falsch', 'n'];
+
+const SEPARATORS: Record<ValueLocale, { decimal: string, thousands: string }> = {
+  de: { decimal: ',', thousands: '.' },
+  en: { decimal: '.', thousands: ',' },
+};
+
+// Leading zeros are not allowed, so codes like postal codes 01069 or phone numbers stay text
+const PLAIN_NUMBER_PATTERN = /^[-+]?(0|[1-9]\d*)(\.\d+)?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+// Day, month and year separated by dots or slashes, with optional time
+const LOCAL_DATE_PATTERN = /^(\d{1,2})([./])(\d{1,2})\2(\d{4}|\d{2})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// Excel counts days from 1899-12-30; the range covers the years 1900 to 9999
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MAX_EXCEL_SERIAL = 2958465;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Number patterns of each locale, built once; spaces and apostrophes are accepted as
+// thousands separators too (1 234,56 or 1'234.56)
+const NUMBER_PATTERNS = Object.fromEntries(
+  Object.entries(SEPARATORS).map(([locale, { decimal, thousands }]) => {
+    const groupSeparator = `[${escapeRegex(thousands)} \u00a0\u202f']`;
+    const decimalPart = `(${escapeRegex(decimal)}\\d+)?`;
+    return [locale, {
+      grouped: new RegExp(`^[-+]?[1-9]\\d{0,2}(${groupSeparator}\\d{3})+${decimalPart}$`),
+      ungrouped: new RegExp(`^[-+]?(0|[1-9]\\d*)${decimalPart}$`),
+      groupSeparator: new RegExp(groupSeparator, 'g'),
+    }];
+  })
+) as Record<ValueLocale, { grouped: RegExp, ungrouped: RegExp, groupSeparator: RegExp }>;
+
+// Parse a number written with the separators of the locale; plain numbers like 12.5 are always read
+export const parseLocaleNumber = (rawValue: string, locale: ValueLocale = DEFAULT_VALUE_LOCALE): number | null => {
+  const value = (rawValue || '').trim();
+  if (value === '') return null;
+
+  const patterns = NUMBER_PATTERNS[locale];
+  if (patterns.grouped.test(value) || patterns.ungrouped.test(value)) {
+    return Number(value.replace(patterns.groupSeparator, '').replace(SEPARATORS[locale].decimal, '.'));
+  }
+  if (PLAIN_NUMBER_PATTERN.test(value)) {
+    return Number(value);
+  }
+  return null;
+};
+
+// Number of decimal places of a number written in the locale
+export const countDecimalPlaces = (rawValue: string, locale: ValueLocale = DEFAULT_VALUE_LOCALE): number => {
+  const parsed = parseLocaleNumber(rawValue, locale);
+  if (parsed === null) return 0;
+  const [, decimals = ''] = String(parsed).split('.');
+  return decimals.length;
+};
+
+const isValidDate = (date: ParsedDate): boolean => {
+  if (date.month < 1 || date.month > 12 || date.day < 1) return false;
+  if (date.hour > 23 || date.minute > 59 || date.second > 59) return false;
+  const daysInMonth = new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+  return date.day <= daysInMonth;
+};
+
+// Parse YYYY-MM-DD with optional time and validate the calendar date
+export const parseIsoDate = (value: string): ParsedDate | null => {
+  const match = ISO_DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, zone] = match;
+  const parsed: ParsedDate = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour || 0),
+    minute: Number(minute || 0),
+    second: Number(second || 0),
+    hasTime: hour !== undefined,
+  };
+  if (zone) {
+    const offset = zone === 'Z' ? '+0000' : zone.replace(':', '');
+    parsed.utcOffset = (offset[0] === '-' ? -1 : 1) * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(3, 5)));
+  }
+  return isValidDate(parsed) ? parsed : null;
+};
+
+// DD.MM.YYYY (German) or MM/DD/YYYY (English); two-digit years up to 69 are read as 20xx
+const parseLocalDate = (value: string, locale: ValueLocale): ParsedDate | null => {
+  const match = LOCAL_DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [, first, separator, second, year, hour, minute, secondOfMinute] = match;
+  // Dots always mean day first, slashes follow the locale
+  const dayFirst = separator === '.' || locale === 'de';
+  const fullYear = year.length === 2 ? (Number(year) <= 69 ? 2000 : 1900) + Number(year) : Number(year);
+  const parsed: ParsedDate = {
+    year: fullYear,
+    month: Number(dayFirst ? second : first),
+    day: Number(dayFirst ? first : second),
+    hour: Number(hour || 0),
+    minute: Number(minute || 0),
+    second: Number(secondOfMinute || 0),
+    hasTime: hour !== undefined,
+  };
+  return isValidDate(parsed) ? parsed : null;
+};
+
+// Excel serial date, e.g. 45292 for 2024-01-01; a fraction is the time of day
+export const parseExcelSerialDate = (value: string): ParsedDate | null => {
+  if (!PLAIN_NUMBER_PATTERN.test(value) || value.startsWith('-')) return null;
+  const serial = Number(value);
+  if (serial < 1 || serial > MAX_EXCEL_SERIAL) return null;
+
+  const date = new Date(EXCEL_EPOCH + Math.round(serial * 86400) * 1000);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    hasTime: !Number.isInteger(serial),
+  };
+};
+
+// Parse a date written as ISO date or in the locale's format
+export const parseLocaleDate = (rawValue: string, locale: ValueLocale = DEFAULT_VALUE_LOCALE): ParsedDate | null => {
+  const value = (rawValue || '').trim();
+  return parseIsoDate(value) || parseLocalDate(value, locale);
+};
+
+export const parseBoolean = (rawValue: string): boolean | null => {
+  const value = (rawValue || '').trim().toLowerCase();
+  if (TRUE_VALUES.includes(value) || value === '1') return true;
+  if (FALSE_VALUES.includes(value) || value === '0') return false;
+  return null;
+};
+
+// Locale of a column from its values: unambiguous numbers and dates decide, German otherwise
+export const detectValueLocale = (rawValues: string[]): ValueLocale => {
+  let german = 0;
+  let english = 0;
+  rawValues.map(value => (value || '').trim()).filter(Boolean).forEach(value => {
+    if (/^[-+]?\d{1,3}(\.\d{3})*,\d+$/.test(value) || /^[-+]?\d{1,3}(\.\d{3}){2,}$/.test(value)) german++;
+    if (/^[-+]?\d{1,3}(,\d{3})*\.\d+$/.test(value) && value.includes(',')) english++;
+    if (/^[-+]?\d{1,3}(,\d{3}){2,}$/.test(value)) english++;
+    const slashDate = /^(\d{1,2})\/(\d{1,2})\/\d{2,4}/.exec(value);
+    if (slashDate && Number(slashDate[2]) > 12) english++;
+    if (slashDate && Number(slashDate[1]) > 12) german++;
+    if (/^\d{1,2}\.\d{1,2}\.\d{2,4}/.test(value)) german++;
+  });
+  return english > german ? 'en' : 'de';
+};